@@ -15,10 +15,12 @@ alter table assignees
 
 create table sections
 (
-    gid  text not null
+    gid         text not null
         constraint sections_pk
             primary key,
-    name text not null
+    name        text not null,
+    project_gid text,
+    deptid      text
 );
 
 alter table sections
@@ -37,27 +39,52 @@ create table tasks
     completed_at timestamp with time zone,
     due_on       date,
     project      text,
-    created_at   timestamp with time zone
+    created_at   timestamp with time zone,
+    week_enddate timestamp with time zone,
+    assignee_gid text
+        constraint tasks_assignees_assignee_gid_fk
+            references assignees (assignee_gid)
 );
 
 alter table tasks
     owner to asana;
 
+create table external_asana_users
+(
+    gid           text not null
+        constraint external_asana_users_pk
+            primary key,
+    name          text,
+    email         text,
+    first_seen_at timestamp with time zone not null,
+    last_seen_at  timestamp with time zone not null
+);
+
+alter table external_asana_users
+    owner to asana;
+
 create table subtasks
 (
-    gid             text not null
+    gid                   text not null
         constraint subtasks_pk
             primary key,
-    name            text,
-    parent_task_gid text
+    name                  text,
+    parent_task_gid       text
         constraint subtasks_tasks_gid_fk
             references tasks,
-    assignee_gid    text
+    assignee_gid          text
         constraint subtasks_assignees_assignee_gid_fk
             references assignees (assignee_gid),
-    completed       boolean,
-    created_at      timestamp with time zone,
-    completed_at    timestamp with time zone
+    completed             boolean,
+    created_at            timestamp with time zone,
+    completed_at          timestamp with time zone,
+    parent_subtask_gid    text
+        constraint subtasks_parent_subtask_gid_fk
+            references subtasks,
+    depth                 integer default 1 not null,
+    external_assignee_gid text
+        constraint subtasks_external_asana_users_gid_fk
+            references external_asana_users
 );
 
 alter table subtasks
@@ -90,4 +117,496 @@ create table task_followers
 alter table task_followers
     owner to asana;
 
+create table sync_runs
+(
+    id                  serial
+        constraint sync_runs_pk
+            primary key,
+    trigger             text not null,
+    triggered_by        text,
+    mode                text not null,
+    status              text not null,
+    started_at          timestamp with time zone default now() not null,
+    finished_at         timestamp with time zone,
+    duration_ms         integer,
+    counts              jsonb,
+    parse_failures      jsonb,
+    progress            jsonb,
+    request_stats       jsonb,
+    result              jsonb,
+    error               text,
+    cancel_requested_at timestamp with time zone,
+    cancel_requested_by text
+);
+
+alter table sync_runs
+    owner to asana;
+
+create index sync_runs_started_at_idx
+    on sync_runs (started_at desc);
+
+create table sync_locks
+(
+    name        text not null
+        constraint sync_locks_pk
+            primary key,
+    token       text not null,
+    run_id      integer,
+    acquired_at timestamp with time zone not null,
+    expires_at  timestamp with time zone not null
+);
+
+alter table sync_locks
+    owner to asana;
+
+create table sections_staging
+(
+    gid         text not null
+        constraint sections_staging_pk
+            primary key,
+    name        text not null,
+    project_gid text,
+    deptid      text
+);
+
+alter table sections_staging
+    owner to asana;
+
+create table tasks_staging
+(
+    gid            text not null
+        constraint tasks_staging_pk
+            primary key,
+    name           text,
+    section_gid    text,
+    completed      boolean,
+    completed_at   timestamp with time zone,
+    due_on         timestamp with time zone,
+    project        text,
+    created_at     timestamp with time zone,
+    week_startdate timestamp with time zone not null,
+    week_enddate   timestamp with time zone,
+    assignee_gid   text
+);
+
+alter table tasks_staging
+    owner to asana;
+
+create table subtasks_staging
+(
+    gid                   text not null
+        constraint subtasks_staging_pk
+            primary key,
+    name                  text,
+    parent_task_gid       text,
+    assignee_gid          text,
+    completed             boolean,
+    created_at            timestamp with time zone,
+    completed_at          timestamp with time zone,
+    due_on                timestamp with time zone,
+    parent_subtask_gid    text,
+    depth                 integer default 1 not null,
+    external_assignee_gid text
+);
+
+alter table subtasks_staging
+    owner to asana;
+
+create table task_followers_staging
+(
+    task_gid     text not null,
+    follower_gid text not null,
+    constraint task_followers_staging_pk
+        unique (follower_gid, task_gid)
+);
+
+alter table task_followers_staging
+    owner to asana;
+
+create table asana_webhooks
+(
+    resource_gid  text not null
+        constraint asana_webhooks_pk
+            primary key,
+    webhook_gid   text,
+    target        text not null,
+    secret        text,
+    status        text not null,
+    error         text,
+    created_at    timestamp with time zone default now() not null,
+    updated_at    timestamp with time zone default now() not null,
+    last_event_at timestamp with time zone
+);
+
+alter table asana_webhooks
+    owner to asana;
+
+create table webhook_task_changes
+(
+    gid       text not null
+        constraint webhook_task_changes_pk
+            primary key,
+    deleted   boolean default false not null,
+    queued_at timestamp with time zone default now() not null
+);
+
+alter table webhook_task_changes
+    owner to asana;
+
+create table sync_projects
+(
+    gid        text not null
+        constraint sync_projects_pk
+            primary key,
+    name       text,
+    enabled    boolean default true not null,
+    created_at timestamp with time zone default now() not null
+);
+
+alter table sync_projects
+    owner to asana;
+
+create table sync_project_sections
+(
+    project_gid text not null
+        constraint sync_project_sections_sync_projects_gid_fk
+            references sync_projects
+            on delete cascade,
+    section_gid text not null,
+    deptid      text,
+    excluded    boolean default false not null,
+    constraint sync_project_sections_pk
+        primary key (project_gid, section_gid)
+);
+
+alter table sync_project_sections
+    owner to asana;
+
+create table custom_field_values_staging
+(
+    resource_gid      text not null,
+    field_gid         text not null,
+    type              text not null,
+    text_value        text,
+    number_value      double precision,
+    date_value        date,
+    enum_value        text,
+    multi_enum_values text[],
+    display_value     text,
+    constraint custom_field_values_staging_pk
+        primary key (resource_gid, field_gid)
+);
+
+alter table custom_field_values_staging
+    owner to asana;
+
+create table custom_fields
+(
+    gid              text not null
+        constraint custom_fields_pk
+            primary key,
+    name             text not null,
+    type             text not null,
+    show_in_table    boolean default false not null,
+    report_dimension boolean default false not null,
+    updated_at       timestamp with time zone default now() not null
+);
+
+alter table custom_fields
+    owner to asana;
+
+create table custom_field_values
+(
+    resource_gid      text not null,
+    field_gid         text not null,
+    type              text not null,
+    text_value        text,
+    number_value      double precision,
+    date_value        date,
+    enum_value        text,
+    multi_enum_values text[],
+    display_value     text,
+    constraint custom_field_values_pk
+        primary key (resource_gid, field_gid)
+);
+
+alter table custom_field_values
+    owner to asana;
+
+create index custom_field_values_field_gid_idx
+    on custom_field_values (field_gid);
+
+create table task_stories_staging
+(
+    gid              text not null
+        constraint task_stories_staging_pk
+            primary key,
+    task_gid         text not null,
+    type             text not null,
+    resource_subtype text,
+    text             text,
+    author_gid       text,
+    author_name      text,
+    created_at       timestamp with time zone not null
+);
+
+alter table task_stories_staging
+    owner to asana;
+
+create table task_stories
+(
+    gid              text not null
+        constraint task_stories_pk
+            primary key,
+    task_gid         text not null
+        constraint task_stories_subtasks_gid_fk
+            references subtasks,
+    type             text not null,
+    resource_subtype text,
+    text             text,
+    author_gid       text,
+    author_name      text,
+    created_at       timestamp with time zone not null
+);
+
+alter table task_stories
+    owner to asana;
+
+create index task_stories_task_gid_idx
+    on task_stories (task_gid, created_at);
+
+create table subtask_status_events
+(
+    id          serial
+        constraint subtask_status_events_pk
+            primary key,
+    subtask_gid text not null
+        constraint subtask_status_events_subtasks_gid_fk
+            references subtasks,
+    event       text not null,
+    occurred_at timestamp with time zone not null,
+    story_gid   text,
+    detail      text
+);
+
+alter table subtask_status_events
+    owner to asana;
+
+create index subtask_status_events_subtask_gid_idx
+    on subtask_status_events (subtask_gid, occurred_at);
+
+create table week_parse_failures
+(
+    task_gid      text not null
+        constraint week_parse_failures_pk
+            primary key,
+    name          text,
+    project       text,
+    first_seen_at timestamp with time zone default now() not null,
+    last_seen_at  timestamp with time zone default now() not null
+);
+
+alter table week_parse_failures
+    owner to asana;
+
+create table week_overrides
+(
+    task_gid       text not null
+        constraint week_overrides_pk
+            primary key,
+    week_startdate timestamp with time zone not null,
+    week_enddate   timestamp with time zone,
+    note           text,
+    updated_by     text,
+    updated_at     timestamp with time zone default now() not null
+);
+
+alter table week_overrides
+    owner to asana;
+
+create table task_tags_staging
+(
+    task_gid text not null,
+    tag_gid  text not null,
+    constraint task_tags_staging_pk
+        unique (task_gid, tag_gid)
+);
+
+alter table task_tags_staging
+    owner to asana;
+
+create table task_sections_staging
+(
+    task_gid     text not null,
+    project_gid  text not null,
+    section_gid  text not null,
+    section_name text,
+    constraint task_sections_staging_pk
+        unique (task_gid, section_gid)
+);
+
+alter table task_sections_staging
+    owner to asana;
+
+create table tags
+(
+    gid        text not null
+        constraint tags_pk
+            primary key,
+    name       text not null,
+    color      text,
+    updated_at timestamp with time zone not null
+);
+
+alter table tags
+    owner to asana;
+
+create table task_tags
+(
+    task_gid text not null
+        constraint task_tags_tasks_gid_fk
+            references tasks,
+    tag_gid  text not null
+        constraint task_tags_tags_gid_fk
+            references tags,
+    constraint task_tags_pk
+        unique (task_gid, tag_gid)
+);
+
+alter table task_tags
+    owner to asana;
+
+create index task_tags_tag_gid_idx
+    on task_tags (tag_gid);
+
+create table task_sections
+(
+    task_gid     text not null
+        constraint task_sections_tasks_gid_fk
+            references tasks,
+    project_gid  text not null,
+    section_gid  text not null,
+    section_name text,
+    constraint task_sections_pk
+        unique (task_gid, section_gid)
+);
+
+alter table task_sections
+    owner to asana;
+
+create table subtask_dependencies_staging
+(
+    subtask_gid text not null,
+    blocker_gid text not null,
+    constraint subtask_dependencies_staging_pk
+        unique (subtask_gid, blocker_gid)
+);
+
+alter table subtask_dependencies_staging
+    owner to asana;
+
+create table subtask_dependencies
+(
+    subtask_gid text not null
+        constraint subtask_dependencies_subtasks_gid_fk
+            references subtasks,
+    blocker_gid text not null
+        constraint subtask_dependencies_blocker_gid_fk
+            references subtasks,
+    constraint subtask_dependencies_pk
+        unique (subtask_gid, blocker_gid)
+);
+
+alter table subtask_dependencies
+    owner to asana;
+
+create index subtask_dependencies_blocker_gid_idx
+    on subtask_dependencies (blocker_gid);
+
+create table task_external_followers_staging
+(
+    task_gid     text not null,
+    follower_gid text not null,
+    constraint task_external_followers_staging_pk
+        unique (follower_gid, task_gid)
+);
+
+alter table task_external_followers_staging
+    owner to asana;
+
+create table task_external_followers
+(
+    task_gid     text not null
+        constraint task_external_followers_subtasks_gid_fk
+            references subtasks,
+    follower_gid text not null
+        constraint task_external_followers_external_asana_users_gid_fk
+            references external_asana_users,
+    constraint task_external_followers_pk
+        unique (follower_gid, task_gid)
+);
+
+alter table task_external_followers
+    owner to asana;
+
+create table assignee_mapping_proposals
+(
+    id           serial
+        constraint assignee_mapping_proposals_pk
+            primary key,
+    email        text not null,
+    assignee_gid text not null,
+    asana_email  text,
+    asana_name   text,
+    source       text not null,
+    kind         text not null,
+    current_gid  text,
+    note         text,
+    status       text default 'pending'::text not null,
+    created_at   timestamp with time zone default now() not null,
+    updated_at   timestamp with time zone default now() not null,
+    reviewed_by  text,
+    reviewed_at  timestamp with time zone,
+    constraint assignee_mapping_proposals_uq
+        unique (email, assignee_gid)
+);
+
+alter table assignee_mapping_proposals
+    owner to asana;
+
+create table closed_weeks
+(
+    week_startdate   timestamp with time zone not null
+        constraint closed_weeks_pk
+            primary key,
+    subtask_counting text not null,
+    expected         integer not null,
+    closed_at        timestamp with time zone default now() not null
+);
+
+alter table closed_weeks
+    owner to asana;
+
+create table weekly_snapshots
+(
+    id             serial
+        constraint weekly_snapshots_pk
+            primary key,
+    week_startdate timestamp with time zone not null
+        constraint weekly_snapshots_week_fk
+            references closed_weeks,
+    assignee_gid   text not null,
+    project        text,
+    assigned       integer not null,
+    completed      integer not null,
+    overdue        integer not null,
+    collab         integer not null
+);
+
+alter table weekly_snapshots
+    owner to asana;
+
+create index weekly_snapshots_assignee_idx
+    on weekly_snapshots (assignee_gid, week_startdate);
+
 
@@ -0,0 +1,208 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Check, CheckCheck, RefreshCw, X } from 'lucide-react'
+import type { AssigneeProposal, ProposalStatus } from './types'
+
+const KIND_BADGES: Record<AssigneeProposal['kind'], { label: string; variant: 'info' | 'warning' | 'alert' }> = {
+  new: { label: 'New', variant: 'info' },
+  changed: { label: 'Changed', variant: 'warning' },
+  conflict: { label: 'Conflict', variant: 'alert' },
+}
+
+export function AssigneeMappingManagement() {
+  const [status, setStatus] = useState<ProposalStatus>('pending')
+  const [proposals, setProposals] = useState<AssigneeProposal[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isBusy, setIsBusy] = useState(false)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+
+  // Fetch proposals of the selected status
+  const fetchProposals = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/assignee-mappings?status=${status}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to fetch assignee mappings')
+      setProposals(data.proposals)
+    } catch (err) {
+      console.error('Error fetching assignee mappings:', err)
+      setError(err instanceof Error ? err.message : 'Failed to fetch assignee mappings')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [status])
+
+  const run = async (action: () => Promise<string>) => {
+    setIsBusy(true)
+    setError('')
+    setMessage('')
+    try {
+      setMessage(await action())
+      await fetchProposals()
+    } catch (err) {
+      console.error('Error updating assignee mappings:', err)
+      setError(err instanceof Error ? err.message : 'Failed to update assignee mappings')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const post = async (url: string, init?: RequestInit) => {
+    const response = await fetch(url, { method: 'POST', ...init })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || 'Request failed')
+    return data
+  }
+
+  const handleRefresh = () => run(async () => {
+    const data = await post('/api/assignee-mappings')
+    return `Read ${data.users} Asana users: ${data.pending} pending proposals, ${data.conflicts} conflicts`
+  })
+
+  const handleApproveAll = () => {
+    if (!confirm('Approve every pending proposal that is not a conflict?')) return
+    run(async () => {
+      const data = await post('/api/assignee-mappings/approve-all')
+      return `Approved ${data.approved} proposals${data.failed.length > 0 ? `, ${data.failed.length} failed: ${data.failed.map((f: { error: string }) => f.error).join('; ')}` : ''}`
+    })
+  }
+
+  const handleReview = (proposal: AssigneeProposal, next: 'approved' | 'rejected') => run(async () => {
+    const response = await fetch(`/api/assignee-mappings/${proposal.id}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ status: next }),
+    })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || 'Failed to review assignee mapping')
+    return next === 'approved' ? `${proposal.email} is now Asana user ${proposal.assignee_gid}` : `Rejected ${proposal.assignee_gid} for ${proposal.email}`
+  })
+
+  useEffect(() => {
+    fetchProposals()
+  }, [fetchProposals])
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-destructive/15 text-destructive text-sm p-3 rounded-md">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="bg-green-100 text-green-800 text-sm p-3 rounded-md">
+          {message}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle>Proposals</CardTitle>
+              <CardDescription>
+                Emails are matched ignoring case and alias domains; conflicts need a choice by hand
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={handleRefresh} disabled={isBusy}>
+                <RefreshCw className="h-4 w-4" />
+                Refresh from Asana
+              </Button>
+              <Button size="sm" onClick={handleApproveAll} disabled={isBusy || status !== 'pending'}>
+                <CheckCheck className="h-4 w-4" />
+                Approve all
+              </Button>
+            </div>
+          </div>
+          <div className="flex gap-2 pt-2">
+            {(['pending', 'approved', 'rejected'] as ProposalStatus[]).map((s) => (
+              <Button key={s} variant={status === s ? 'default' : 'outline'} size="sm" onClick={() => setStatus(s)}>
+                {s[0].toUpperCase() + s.slice(1)}
+              </Button>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Asana User</TableHead>
+                  <TableHead>Match</TableHead>
+                  <TableHead>Linked Today</TableHead>
+                  <TableHead className="text-right">{status === 'pending' ? 'Actions' : 'Reviewed'}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading && proposals.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">Loading...</TableCell>
+                  </TableRow>
+                ) : proposals.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">No {status} proposals</TableCell>
+                  </TableRow>
+                ) : (
+                  proposals.map((proposal) => (
+                    <TableRow key={proposal.id}>
+                      <TableCell>
+                        <div className="flex flex-col">
+                          <span>{proposal.name || '-'}</span>
+                          <span className="text-xs text-muted-foreground">{proposal.email}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-col">
+                          <span>{proposal.asana_name || '-'}</span>
+                          <span className="text-xs text-muted-foreground">{proposal.asana_email || '-'}</span>
+                          <span className="font-mono text-xs text-muted-foreground">{proposal.assignee_gid}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-col gap-1 items-start">
+                          <div className="flex gap-1">
+                            <Badge variant={KIND_BADGES[proposal.kind].variant}>{KIND_BADGES[proposal.kind].label}</Badge>
+                            <Badge variant="outline">{proposal.source}</Badge>
+                          </div>
+                          {proposal.note && <span className="text-xs text-muted-foreground">{proposal.note}</span>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{proposal.current_gid || '-'}</TableCell>
+                      <TableCell className="text-right">
+                        {proposal.status === 'pending' ? (
+                          <div className="flex gap-2 justify-end">
+                            <Button variant="outline" size="sm" onClick={() => handleReview(proposal, 'approved')} disabled={isBusy}>
+                              <Check className="h-4 w-4" />
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => handleReview(proposal, 'rejected')} disabled={isBusy}>
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ) : (
+                          <div className="flex flex-col text-xs">
+                            <span className="whitespace-nowrap">{proposal.reviewed_at ? new Date(proposal.reviewed_at).toLocaleString() : '-'}</span>
+                            <span className="text-muted-foreground">{proposal.reviewed_by || '-'}</span>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,21 @@
+export type ProposalStatus = 'pending' | 'approved' | 'rejected'
+
+export interface AssigneeProposal {
+  id: number
+  // mas_user email and decrypted name
+  email: string
+  name: string | null
+  assignee_gid: string
+  asana_email: string | null
+  asana_name: string | null
+  source: 'team' | 'workspace'
+  kind: 'new' | 'changed' | 'conflict'
+  // Asana user the email is linked to today, if any
+  current_gid: string | null
+  note: string | null
+  status: ProposalStatus
+  created_at: string
+  updated_at: string
+  reviewed_by: string | null
+  reviewed_at: string | null
+}
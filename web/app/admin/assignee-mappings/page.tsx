@@ -0,0 +1,50 @@
+import { Suspense } from 'react'
+import { AssigneeMappingManagement } from './components/AssigneeMappingManagement'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+
+export default function AdminAssigneeMappingsPage() {
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex flex-col gap-4">
+        <h1 className="text-3xl font-bold">Assignee Mapping</h1>
+        <p className="text-muted-foreground">
+          Review which Asana user each person in the user list is. The sync proposes matches from the team and workspace directory; nothing changes until a proposal is approved.
+        </p>
+      </div>
+
+      <Suspense fallback={<AssigneeMappingSkeleton />}>
+        <AssigneeMappingManagement />
+      </Suspense>
+    </div>
+  )
+}
+
+function AssigneeMappingSkeleton() {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          <Skeleton className="h-6 w-48" />
+        </CardTitle>
+        <CardDescription>
+          <Skeleton className="h-4 w-64" />
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="border rounded-lg">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="p-4 border-b last:border-b-0">
+              <div className="flex gap-4">
+                <Skeleton className="h-4 w-48" />
+                <Skeleton className="h-4 w-48" />
+                <Skeleton className="h-4 w-20" />
+                <Skeleton className="h-4 w-24" />
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
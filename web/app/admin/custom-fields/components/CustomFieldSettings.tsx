@@ -0,0 +1,130 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import type { CustomField } from './types'
+
+type Setting = 'show_in_table' | 'report_dimension'
+
+export function CustomFieldSettings() {
+  const [fields, setFields] = useState<CustomField[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  // Fetch custom fields
+  const fetchFields = async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/custom-fields')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to fetch custom fields')
+      setFields(data.fields)
+    } catch (err) {
+      console.error('Error fetching custom fields:', err)
+      setError(err instanceof Error ? err.message : 'Failed to fetch custom fields')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Flip one display setting of a field
+  const handleToggle = async (field: CustomField, setting: Setting) => {
+    try {
+      const response = await fetch(`/api/custom-fields/${field.gid}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ [setting]: !field[setting] }),
+      })
+      if (!response.ok) throw new Error('Failed to update custom field')
+      await fetchFields()
+    } catch (err) {
+      console.error('Error updating custom field:', err)
+      setError(err instanceof Error ? err.message : 'Failed to update custom field')
+    }
+  }
+
+  // Initial load
+  useEffect(() => {
+    fetchFields()
+  }, [])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Fields</CardTitle>
+        <CardDescription>
+          Fields are discovered by the sync; people and formula fields are not stored
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {error && (
+            <div className="bg-destructive/15 text-destructive text-sm p-3 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Field</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Table Column</TableHead>
+                  <TableHead>Report Dimension</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading && fields.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground">Loading...</TableCell>
+                  </TableRow>
+                ) : fields.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground">No custom fields synced yet</TableCell>
+                  </TableRow>
+                ) : (
+                  fields.map((field) => (
+                    <TableRow key={field.gid}>
+                      <TableCell>
+                        <div className="flex flex-col">
+                          <span>{field.name}</span>
+                          <span className="font-mono text-xs text-muted-foreground">{field.gid}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{field.type}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4"
+                          checked={field.show_in_table}
+                          onChange={() => handleToggle(field, 'show_in_table')}
+                          aria-label={`Show ${field.name} in the current tasks table`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4"
+                          checked={field.report_dimension}
+                          onChange={() => handleToggle(field, 'report_dimension')}
+                          aria-label={`Use ${field.name} as a report dimension`}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
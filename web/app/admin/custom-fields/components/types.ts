@@ -0,0 +1,8 @@
+export interface CustomField {
+  gid: string
+  name: string
+  type: string
+  show_in_table: boolean
+  report_dimension: boolean
+  updated_at: string
+}
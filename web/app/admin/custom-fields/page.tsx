@@ -0,0 +1,50 @@
+import { Suspense } from 'react'
+import { CustomFieldSettings } from './components/CustomFieldSettings'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+
+export default function AdminCustomFieldsPage() {
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex flex-col gap-4">
+        <h1 className="text-3xl font-bold">Custom Fields</h1>
+        <p className="text-muted-foreground">
+          Choose which Asana custom fields appear in the current tasks table and in the dashboard reports.
+        </p>
+      </div>
+
+      <Suspense fallback={<CustomFieldSettingsSkeleton />}>
+        <CustomFieldSettings />
+      </Suspense>
+    </div>
+  )
+}
+
+function CustomFieldSettingsSkeleton() {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          <Skeleton className="h-6 w-48" />
+        </CardTitle>
+        <CardDescription>
+          <Skeleton className="h-4 w-64" />
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="border rounded-lg">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="p-4 border-b last:border-b-0">
+              <div className="flex gap-4">
+                <Skeleton className="h-4 w-40" />
+                <Skeleton className="h-4 w-20" />
+                <Skeleton className="h-4 w-16" />
+                <Skeleton className="h-4 w-16" />
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,177 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Pencil, UserPlus } from 'lucide-react'
+import { PromoteDialog, type PromoteForm } from './PromoteDialog'
+import type { Department, ExternalUser } from './types'
+
+export function ExternalUserManagement() {
+  const [users, setUsers] = useState<ExternalUser[]>([])
+  const [departments, setDepartments] = useState<Department[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+  const [editingUser, setEditingUser] = useState<ExternalUser | null>(null)
+
+  // Fetch external users
+  const fetchUsers = async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/external-users')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to fetch external users')
+      setUsers(data.users)
+    } catch (err) {
+      console.error('Error fetching external users:', err)
+      setError(err instanceof Error ? err.message : 'Failed to fetch external users')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Fetch departments for the promote dialog
+  const fetchDepartments = async () => {
+    try {
+      const response = await fetch('/api/departments')
+      if (!response.ok) throw new Error('Failed to fetch departments')
+      const data = await response.json()
+      setDepartments(data.departments)
+    } catch (err) {
+      console.error('Error fetching departments:', err)
+    }
+  }
+
+  const promote = async (gid: string, form?: PromoteForm) => {
+    const response = await fetch(`/api/external-users/${gid}/promote`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(form ?? {}),
+    })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || 'Failed to promote external user')
+
+    setMessage(`Added ${data.email}: ${data.subtasks} assigned and ${data.followers} followed subtasks moved over`)
+    await fetchUsers()
+  }
+
+  // One click when Asana gave an email; otherwise ask for it
+  const handlePromote = async (user: ExternalUser) => {
+    if (!user.email) {
+      setEditingUser(user)
+      return
+    }
+    if (!confirm(`Add ${user.name || user.gid} (${user.email}) to the user list?`)) return
+
+    setError('')
+    setMessage('')
+    try {
+      await promote(user.gid)
+    } catch (err) {
+      console.error('Error promoting external user:', err)
+      setError(err instanceof Error ? err.message : 'Failed to promote external user')
+    }
+  }
+
+  const handleSave = async (gid: string, form: PromoteForm) => {
+    setError('')
+    setMessage('')
+    await promote(gid, form)
+    setEditingUser(null)
+  }
+
+  // Initial load
+  useEffect(() => {
+    fetchUsers()
+    fetchDepartments()
+  }, [])
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-destructive/15 text-destructive text-sm p-3 rounded-md">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="bg-green-100 text-green-800 text-sm p-3 rounded-md">
+          {message}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Unmapped People</CardTitle>
+          <CardDescription>
+            Their subtask links are kept by every sync; promoting moves them to the person&apos;s new user
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Asana User</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead className="text-right">Assigned</TableHead>
+                  <TableHead className="text-right">Following</TableHead>
+                  <TableHead>Last Seen</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading && users.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">Loading...</TableCell>
+                  </TableRow>
+                ) : users.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">Everyone on synced subtasks is a user</TableCell>
+                  </TableRow>
+                ) : (
+                  users.map((user) => (
+                    <TableRow key={user.gid}>
+                      <TableCell>
+                        <div className="flex flex-col">
+                          <span>{user.name || '-'}</span>
+                          <span className="font-mono text-xs text-muted-foreground">{user.gid}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell>{user.email || '-'}</TableCell>
+                      <TableCell className="text-right">{user.assigned}</TableCell>
+                      <TableCell className="text-right">{user.following}</TableCell>
+                      <TableCell className="whitespace-nowrap">{new Date(user.last_seen_at).toLocaleString()}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex gap-2 justify-end">
+                          <Button size="sm" onClick={() => handlePromote(user)}>
+                            <UserPlus className="h-4 w-4" />
+                            Promote
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => setEditingUser(user)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <PromoteDialog
+        isOpen={!!editingUser}
+        onClose={() => setEditingUser(null)}
+        user={editingUser}
+        departments={departments}
+        onSave={handleSave}
+      />
+    </div>
+  )
+}
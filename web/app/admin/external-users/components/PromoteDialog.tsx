@@ -0,0 +1,159 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import type { Department, ExternalUser } from './types'
+
+export interface PromoteForm {
+  email: string
+  firstname: string
+  lastname: string
+  departmentid: string | null
+}
+
+interface PromoteDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  user: ExternalUser | null
+  departments: Department[]
+  onSave: (gid: string, form: PromoteForm) => Promise<void>
+}
+
+export function PromoteDialog({
+  isOpen,
+  onClose,
+  user,
+  departments,
+  onSave,
+}: PromoteDialogProps) {
+  const [formData, setFormData] = useState<PromoteForm>({ email: '', firstname: '', lastname: '', departmentid: null })
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  // Names start from the Asana name, split like the server does by default
+  useEffect(() => {
+    if (isOpen && user) {
+      const [first = '', ...rest] = (user.name ?? '').trim().split(/\s+/)
+      setFormData({ email: user.email || '', firstname: first, lastname: rest.join(' '), departmentid: null })
+      setError('')
+    }
+  }, [isOpen, user])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user) return
+    setIsLoading(true)
+    setError('')
+
+    try {
+      await onSave(user.gid, formData)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Promote to User</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="bg-destructive/15 text-destructive text-sm p-3 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <div className="text-sm">
+            <div>{user?.name || '-'}</div>
+            <div className="font-mono text-xs text-muted-foreground">{user?.gid}</div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="email">Email *</Label>
+            <Input
+              id="email"
+              type="email"
+              value={formData.email}
+              onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+              disabled={isLoading}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="firstname">First Name</Label>
+            <Input
+              id="firstname"
+              value={formData.firstname}
+              onChange={(e) => setFormData(prev => ({ ...prev, firstname: e.target.value }))}
+              disabled={isLoading}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="lastname">Last Name</Label>
+            <Input
+              id="lastname"
+              value={formData.lastname}
+              onChange={(e) => setFormData(prev => ({ ...prev, lastname: e.target.value }))}
+              disabled={isLoading}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="department">Department</Label>
+            <Select
+              value={formData.departmentid || '__none'}
+              onValueChange={(value) => setFormData(prev => ({ ...prev, departmentid: value === '__none' ? null : value }))}
+              disabled={isLoading}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select Department" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="__none">Select Department</SelectItem>
+                {departments.map((dept) => (
+                  <SelectItem key={dept.deptid} value={dept.deptid}>
+                    {dept.name || dept.deptid}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={isLoading}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isLoading || !formData.email}
+            >
+              {isLoading ? 'Promoting...' : 'Promote'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,16 @@
+export interface ExternalUser {
+  gid: string
+  name: string | null
+  email: string | null
+  first_seen_at: string
+  last_seen_at: string
+  // Subtasks assigned to the user and subtasks they follow
+  assigned: number
+  following: number
+  total: number
+}
+
+export interface Department {
+  deptid: string
+  name?: string | null
+}
@@ -0,0 +1,126 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import type { Project } from './types'
+
+interface ProjectForm {
+  gid: string
+  name: string | null
+  enabled: boolean
+}
+
+interface ProjectDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  project: Project | null
+  onSave: (project: ProjectForm) => Promise<void>
+}
+
+export function ProjectDialog({
+  isOpen,
+  onClose,
+  project,
+  onSave,
+}: ProjectDialogProps) {
+  const [formData, setFormData] = useState<ProjectForm>({ gid: '', name: '', enabled: true })
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  // Reset form when dialog opens/closes or project changes
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(project
+        ? { gid: project.gid, name: project.name || '', enabled: project.enabled }
+        : { gid: '', name: '', enabled: true })
+      setError('')
+    }
+  }, [isOpen, project])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError('')
+
+    try {
+      await onSave(formData)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>
+            {project ? 'Edit Project' : 'Add Project'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="bg-destructive/15 text-destructive text-sm p-3 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="gid">Asana Project Gid *</Label>
+            <Input
+              id="gid"
+              value={formData.gid}
+              onChange={(e) => setFormData(prev => ({ ...prev, gid: e.target.value }))}
+              disabled={!!project || isLoading} // The gid identifies the project
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="name">Name</Label>
+            <Input
+              id="name"
+              value={formData.name || ''}
+              onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              disabled={isLoading}
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              id="enabled"
+              type="checkbox"
+              className="h-4 w-4"
+              checked={formData.enabled}
+              onChange={(e) => setFormData(prev => ({ ...prev, enabled: e.target.checked }))}
+              disabled={isLoading}
+            />
+            <Label htmlFor="enabled">Include in sync</Label>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={isLoading}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isLoading || !formData.gid}
+            >
+              {isLoading ? 'Saving...' : project ? 'Update Project' : 'Add Project'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,224 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Edit, ListTree, Plus, Trash2 } from 'lucide-react'
+import { ProjectDialog } from './ProjectDialog'
+import { SectionMappingDialog } from './SectionMappingDialog'
+import type { Department, Project } from './types'
+
+export function ProjectManagement() {
+  const [projects, setProjects] = useState<Project[]>([])
+  const [departments, setDepartments] = useState<Department[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingProject, setEditingProject] = useState<Project | null>(null)
+  const [mappingProject, setMappingProject] = useState<Project | null>(null)
+
+  // Fetch projects
+  const fetchProjects = async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/projects')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to fetch projects')
+      setProjects(data.projects)
+    } catch (err) {
+      console.error('Error fetching projects:', err)
+      setError(err instanceof Error ? err.message : 'Failed to fetch projects')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Fetch departments for the section mapping
+  const fetchDepartments = async () => {
+    try {
+      const response = await fetch('/api/departments')
+      if (!response.ok) throw new Error('Failed to fetch departments')
+
+      const data = await response.json()
+      setDepartments(data.departments)
+    } catch (err) {
+      console.error('Error fetching departments:', err)
+    }
+  }
+
+  // Handle project create/update
+  const handleProjectSave = async (project: { gid: string; name: string | null; enabled: boolean }) => {
+    const url = editingProject ? `/api/projects/${editingProject.gid}` : '/api/projects'
+    const method = editingProject ? 'PUT' : 'POST'
+
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(project),
+    })
+
+    if (!response.ok) {
+      const data = await response.json()
+      throw new Error(data.error || 'Failed to save project')
+    }
+
+    await fetchProjects()
+    setIsDialogOpen(false)
+    setEditingProject(null)
+  }
+
+  // Enable or disable a project without opening the dialog
+  const handleToggle = async (project: Project) => {
+    try {
+      const response = await fetch(`/api/projects/${project.gid}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ enabled: !project.enabled }),
+      })
+      if (!response.ok) throw new Error('Failed to update project')
+      await fetchProjects()
+    } catch (err) {
+      console.error('Error updating project:', err)
+      setError(err instanceof Error ? err.message : 'Failed to update project')
+    }
+  }
+
+  // Handle project delete
+  const handleDelete = async (project: Project) => {
+    if (!confirm('Remove this project from the sync? Its tasks are removed by the next sync.')) return
+
+    try {
+      const response = await fetch(`/api/projects/${project.gid}`, {
+        method: 'DELETE',
+      })
+      if (!response.ok) throw new Error('Failed to delete project')
+      await fetchProjects()
+    } catch (err) {
+      console.error('Error deleting project:', err)
+      setError(err instanceof Error ? err.message : 'Failed to delete project')
+    }
+  }
+
+  // Initial load
+  useEffect(() => {
+    fetchProjects()
+    fetchDepartments()
+  }, [])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Projects</CardTitle>
+        <CardDescription>
+          When no project is configured, the sync falls back to ASANA_PROJECT_ID
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {error && (
+            <div className="bg-destructive/15 text-destructive text-sm p-3 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              onClick={() => {
+                setEditingProject(null)
+                setIsDialogOpen(true)
+              }}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Project
+            </Button>
+          </div>
+
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Project</TableHead>
+                  <TableHead>Gid</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Mapped Sections</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">Loading...</TableCell>
+                  </TableRow>
+                ) : projects.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">No projects configured</TableCell>
+                  </TableRow>
+                ) : (
+                  projects.map((project) => (
+                    <TableRow key={project.gid}>
+                      <TableCell>{project.name || '-'}</TableCell>
+                      <TableCell className="font-mono text-xs">{project.gid}</TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={project.enabled ? 'success' : 'outline'}
+                          className="cursor-pointer"
+                          onClick={() => handleToggle(project)}
+                        >
+                          {project.enabled ? 'Enabled' : 'Disabled'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{project._count?.sync_project_sections ?? 0}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex gap-2 justify-end">
+                          <Button variant="outline" size="sm" onClick={() => setMappingProject(project)}>
+                            <ListTree className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              setEditingProject(project)
+                              setIsDialogOpen(true)
+                            }}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => handleDelete(project)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        <ProjectDialog
+          isOpen={isDialogOpen}
+          onClose={() => {
+            setIsDialogOpen(false)
+            setEditingProject(null)
+          }}
+          project={editingProject}
+          onSave={handleProjectSave}
+        />
+
+        <SectionMappingDialog
+          project={mappingProject}
+          departments={departments}
+          onClose={() => setMappingProject(null)}
+          onSaved={fetchProjects}
+        />
+      </CardContent>
+    </Card>
+  )
+}
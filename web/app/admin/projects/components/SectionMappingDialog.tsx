@@ -0,0 +1,174 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import type { Department, Project, SectionMappingRow } from './types'
+
+interface SectionMappingDialogProps {
+  project: Project | null
+  departments: Department[]
+  onClose: () => void
+  onSaved: () => Promise<void>
+}
+
+export function SectionMappingDialog({
+  project,
+  departments,
+  onClose,
+  onSaved,
+}: SectionMappingDialogProps) {
+  const [sections, setSections] = useState<SectionMappingRow[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  // Load the live sections of the project with their saved mapping
+  useEffect(() => {
+    if (!project) return
+    let cancelled = false
+    setSections([])
+    setError('')
+    setIsLoading(true)
+    fetch(`/api/projects/${project.gid}/sections`)
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to fetch sections')
+        if (!cancelled) setSections(data.sections)
+      })
+      .catch((err) => {
+        console.error('Error fetching sections:', err)
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to fetch sections')
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [project])
+
+  const updateSection = (sectionGid: string, patch: Partial<SectionMappingRow>) => {
+    setSections(prev => prev.map((s) => (s.section_gid === sectionGid ? { ...s, ...patch } : s)))
+  }
+
+  const handleSave = async () => {
+    if (!project) return
+    setIsSaving(true)
+    setError('')
+    try {
+      const response = await fetch(`/api/projects/${project.gid}/sections`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ sections }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to save section mapping')
+      await onSaved()
+      onClose()
+    } catch (err) {
+      console.error('Error saving section mapping:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save section mapping')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!project} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>
+            Section Mapping{project?.name ? ` - ${project.name}` : ''}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <div className="bg-destructive/15 text-destructive text-sm p-3 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <div className="border rounded-lg max-h-[60vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Section</TableHead>
+                  <TableHead>Department</TableHead>
+                  <TableHead>Excluded</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center text-muted-foreground">Loading...</TableCell>
+                  </TableRow>
+                ) : sections.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center text-muted-foreground">No sections found</TableCell>
+                  </TableRow>
+                ) : (
+                  sections.map((section) => (
+                    <TableRow key={section.section_gid}>
+                      <TableCell>{section.name}</TableCell>
+                      <TableCell>
+                        <Select
+                          // '__none' stands for "no department"; Radix does not allow an empty Item value
+                          value={section.deptid || '__none'}
+                          onValueChange={(value) => updateSection(section.section_gid, { deptid: value === '__none' ? null : value })}
+                          disabled={isSaving || section.excluded}
+                        >
+                          <SelectTrigger className="w-56">
+                            <SelectValue placeholder="No department" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="__none">No department</SelectItem>
+                            {departments.map((dept) => (
+                              <SelectItem key={dept.deptid} value={dept.deptid}>
+                                {dept.name || dept.deptid}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4"
+                          checked={section.excluded}
+                          onChange={(e) => updateSection(section.section_gid, { excluded: e.target.checked })}
+                          disabled={isSaving}
+                          aria-label={`Exclude ${section.name}`}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || isLoading || sections.length === 0}>
+            {isSaving ? 'Saving...' : 'Save Mapping'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,21 @@
+export interface Project {
+  gid: string
+  name: string | null
+  enabled: boolean
+  created_at: string
+  _count?: {
+    sync_project_sections: number
+  }
+}
+
+export interface Department {
+  deptid: string
+  name?: string | null
+}
+
+export interface SectionMappingRow {
+  section_gid: string
+  name: string
+  deptid: string | null
+  excluded: boolean
+}
@@ -0,0 +1,53 @@
+import { Suspense } from 'react'
+import { ProjectManagement } from './components/ProjectManagement'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+
+export default function AdminProjectsPage() {
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex flex-col gap-4">
+        <h1 className="text-3xl font-bold">Asana Projects</h1>
+        <p className="text-muted-foreground">
+          Choose which Asana projects are synced and map their sections to departments.
+        </p>
+      </div>
+
+      <Suspense fallback={<ProjectManagementSkeleton />}>
+        <ProjectManagement />
+      </Suspense>
+    </div>
+  )
+}
+
+function ProjectManagementSkeleton() {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          <Skeleton className="h-6 w-48" />
+        </CardTitle>
+        <CardDescription>
+          <Skeleton className="h-4 w-64" />
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <Skeleton className="h-10 w-32" />
+          <div className="border rounded-lg">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="p-4 border-b last:border-b-0">
+                <div className="flex gap-4">
+                  <Skeleton className="h-4 w-40" />
+                  <Skeleton className="h-4 w-48" />
+                  <Skeleton className="h-4 w-20" />
+                  <Skeleton className="h-4 w-24" />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
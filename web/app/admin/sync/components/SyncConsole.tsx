@@ -0,0 +1,234 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { FileSearch, Play, RefreshCw, Square } from 'lucide-react'
+import { SyncRunTable } from './SyncRunTable'
+import { SyncRunDialog } from './SyncRunDialog'
+import { formatProgress, type PaginationInfo, type SyncProgress, type SyncRunSummary } from './types'
+
+export function SyncConsole() {
+  const [runs, setRuns] = useState<SyncRunSummary[]>([])
+  const [pagination, setPagination] = useState<PaginationInfo>({
+    page: 1,
+    limit: 20,
+    total: 0,
+    totalPages: 0,
+  })
+  const [isLoading, setIsLoading] = useState(false)
+  const [mode, setMode] = useState<'incremental' | 'full'>('incremental')
+  const [isStarting, setIsStarting] = useState(false)
+  const [syncError, setSyncError] = useState('')
+  const [selectedRunId, setSelectedRunId] = useState<number | null>(null)
+  // Run started from this console, followed through its event stream
+  const [activeRunId, setActiveRunId] = useState<number | null>(null)
+  const [liveProgress, setLiveProgress] = useState<SyncProgress | null>(null)
+  const [cancelRequested, setCancelRequested] = useState(false)
+
+  // Fetch runs. Background refreshes keep the table on screen instead of
+  // showing the loading state.
+  const fetchRuns = async (page = 1, background = false) => {
+    if (!background) setIsLoading(true)
+    try {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: pagination.limit.toString(),
+      })
+
+      const response = await fetch(`/api/sync/runs?${params}`)
+      if (!response.ok) throw new Error('Failed to fetch sync runs')
+
+      const data = await response.json()
+      setRuns(data.runs)
+      setPagination(data.pagination)
+    } catch (error) {
+      console.error('Error fetching sync runs:', error)
+    } finally {
+      if (!background) setIsLoading(false)
+    }
+  }
+
+  // Start a new sync. The request returns the run id at once; the run is then
+  // followed through its event stream until it finishes.
+  const handleStartSync = async () => {
+    if (mode === 'full' && !confirm('A full sync clears and reloads every synced table. Continue?')) return
+
+    setIsStarting(true)
+    setSyncError('')
+    try {
+      const response = await fetch('/api/sync', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ mode, trigger: 'manual' }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Sync failed')
+
+      setLiveProgress(null)
+      setCancelRequested(false)
+      setActiveRunId(data.runId)
+    } catch (error) {
+      console.error('Error running sync:', error)
+      setSyncError(error instanceof Error ? error.message : 'Sync failed')
+    } finally {
+      setIsStarting(false)
+      await fetchRuns(1)
+    }
+  }
+
+  // Ask the running sync to stop at its next stage
+  const handleCancelSync = async (runId: number) => {
+    if (!confirm(`Cancel sync run ${runId}? A run that is already writing finishes first.`)) return
+
+    setSyncError('')
+    try {
+      const response = await fetch(`/api/sync/runs/${runId}/cancel`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to cancel sync')
+      setCancelRequested(true)
+    } catch (error) {
+      console.error('Error cancelling sync:', error)
+      setSyncError(error instanceof Error ? error.message : 'Failed to cancel sync')
+    } finally {
+      await fetchRuns(pagination.page, true)
+    }
+  }
+
+  // Follow the started run. Once it finishes the history is reloaded and the
+  // run's detail opened.
+  useEffect(() => {
+    if (activeRunId == null) return
+    const events = new EventSource(`/api/sync/runs/${activeRunId}/events`)
+    events.addEventListener('progress', (e) => {
+      const data = JSON.parse((e as MessageEvent).data)
+      setLiveProgress(data.progress)
+      setCancelRequested(data.cancelRequested)
+    })
+    events.addEventListener('done', () => {
+      events.close()
+      setSelectedRunId(activeRunId)
+      setActiveRunId(null)
+      setLiveProgress(null)
+      setCancelRequested(false)
+      fetchRuns(1)
+    })
+    // The history keeps polling while the run is running, so a lost stream
+    // only stops the live line
+    events.onerror = () => {
+      events.close()
+      setActiveRunId(null)
+      setLiveProgress(null)
+    }
+    return () => events.close()
+  }, [activeRunId]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Initial load
+  useEffect(() => {
+    fetchRuns()
+  }, []) // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Poll while a run is in progress so its progress column stays current
+  const runningId = activeRunId ?? runs.find((r) => r.status === 'running')?.id ?? null
+  const isSyncing = isStarting || runningId != null
+  useEffect(() => {
+    if (!isSyncing) return
+    const timer = setInterval(() => fetchRuns(pagination.page, true), 3000)
+    return () => clearInterval(timer)
+  }, [isSyncing, pagination.page]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sync Runs</CardTitle>
+        <CardDescription>
+          History of Asana syncs started by cron, the admin console or the API
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {/* Start Sync */}
+          <div className="flex flex-col sm:flex-row gap-4 justify-between">
+            <div className="flex gap-2">
+              <Select
+                value={mode}
+                onValueChange={(value) => setMode(value as 'incremental' | 'full')}
+                disabled={isSyncing}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="incremental">Incremental</SelectItem>
+                  <SelectItem value="full">Full reload</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button onClick={handleStartSync} disabled={isSyncing}>
+                <Play className="h-4 w-4 mr-2" />
+                {isSyncing ? 'Syncing...' : 'Start Sync'}
+              </Button>
+              {runningId != null && (
+                <Button variant="outline" onClick={() => handleCancelSync(runningId)} disabled={cancelRequested}>
+                  <Square className="h-4 w-4 mr-2" />
+                  {cancelRequested ? 'Cancelling...' : 'Cancel'}
+                </Button>
+              )}
+              <Button variant="outline" asChild>
+                <a href="/admin/sync/dry-run">
+                  <FileSearch className="h-4 w-4 mr-2" />
+                  Dry Run
+                </a>
+              </Button>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => fetchRuns(pagination.page)}
+              disabled={isLoading}
+            >
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+          </div>
+
+          {activeRunId != null && (
+            <div className="bg-muted text-sm p-3 rounded-md">
+              Run {activeRunId}: {formatProgress(liveProgress) ?? 'starting...'}
+              {cancelRequested && <span className="text-muted-foreground"> · cancel requested, stopping at the next stage</span>}
+            </div>
+          )}
+
+          {syncError && (
+            <div className="bg-destructive/15 text-destructive text-sm p-3 rounded-md">
+              {syncError}
+            </div>
+          )}
+
+          {/* Run Table */}
+          <SyncRunTable
+            runs={runs}
+            isLoading={isLoading}
+            pagination={pagination}
+            onPageChange={fetchRuns}
+            onRunSelect={(run) => setSelectedRunId(run.id)}
+          />
+        </div>
+      </CardContent>
+
+      {/* Run Detail Dialog */}
+      <SyncRunDialog
+        runId={selectedRunId}
+        onClose={() => setSelectedRunId(null)}
+      />
+    </Card>
+  )
+}
@@ -0,0 +1,167 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import { SyncRunStatusBadge } from './SyncRunStatusBadge'
+import { formatDuration, formatProgress, type SyncRunDetail } from './types'
+
+interface SyncRunDialogProps {
+  runId: number | null
+  onClose: () => void
+}
+
+export function SyncRunDialog({ runId, onClose }: SyncRunDialogProps) {
+  const [run, setRun] = useState<SyncRunDetail | null>(null)
+  const [error, setError] = useState('')
+
+  // Load the full run (counts, parse failures) whenever a different run is opened
+  useEffect(() => {
+    if (runId == null) return
+    let cancelled = false
+    setRun(null)
+    setError('')
+    fetch(`/api/sync/runs/${runId}`)
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to fetch sync run')
+        if (!cancelled) setRun(data.run)
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'An error occurred')
+      })
+    return () => { cancelled = true }
+  }, [runId])
+
+  const counts = run?.counts ? Object.entries(run.counts) : []
+  const failures = run?.parse_failures ?? []
+
+  return (
+    <Dialog open={runId != null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Sync run #{runId}</DialogTitle>
+        </DialogHeader>
+
+        {error && (
+          <div className="bg-destructive/15 text-destructive text-sm p-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {!run && !error && <p className="text-sm text-muted-foreground">Loading...</p>}
+
+        {run && (
+          <div className="space-y-4 text-sm">
+            <div className="grid grid-cols-2 gap-2">
+              <span className="text-muted-foreground">Status</span>
+              <span><SyncRunStatusBadge status={run.status} /></span>
+              <span className="text-muted-foreground">Trigger</span>
+              <span className="capitalize">{run.trigger}</span>
+              <span className="text-muted-foreground">Triggered by</span>
+              <span>{run.triggered_by ?? '-'}</span>
+              <span className="text-muted-foreground">Mode</span>
+              <span className="capitalize">{run.mode}</span>
+              <span className="text-muted-foreground">Started</span>
+              <span>{new Date(run.started_at).toLocaleString()}</span>
+              <span className="text-muted-foreground">Finished</span>
+              <span>{run.finished_at ? new Date(run.finished_at).toLocaleString() : '-'}</span>
+              <span className="text-muted-foreground">Duration</span>
+              <span>{formatDuration(run.duration_ms)}</span>
+              {run.cancel_requested_at && (
+                <>
+                  <span className="text-muted-foreground">Cancel requested</span>
+                  <span>{new Date(run.cancel_requested_at).toLocaleString()} by {run.cancel_requested_by ?? '-'}</span>
+                </>
+              )}
+              {run.request_stats && run.request_stats.retries > 0 && (
+                <>
+                  <span className="text-muted-foreground">Retries</span>
+                  <span>{run.request_stats.retries} transient errors retried</span>
+                </>
+              )}
+              {run.request_stats?.batch && (
+                <>
+                  <span className="text-muted-foreground">Batch API</span>
+                  <span>
+                    {run.request_stats.batchActions} lookups in {run.request_stats.batchRequests} requests, {run.request_stats.callsSaved} HTTP calls saved
+                  </span>
+                </>
+              )}
+              {run.progress && (
+                <>
+                  <span className="text-muted-foreground">Progress</span>
+                  <span>
+                    {formatProgress(run.progress)}
+                    {(run.progress.retried > 0 || run.progress.failed > 0) && (
+                      <span className="text-muted-foreground"> · retried {run.progress.retried}, failed {run.progress.failed}</span>
+                    )}
+                  </span>
+                </>
+              )}
+            </div>
+
+            {run.mode === 'dry-run' && run.status === 'success' && (
+              <a href={`/admin/sync/dry-run?run=${run.id}`} className="underline">
+                Open the dry run diff
+              </a>
+            )}
+
+            {run.error && (
+              <div className="bg-destructive/15 text-destructive p-3 rounded-md whitespace-pre-wrap break-words">
+                {run.error}
+              </div>
+            )}
+
+            {counts.length > 0 && (
+              <div className="border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Entity</TableHead>
+                      <TableHead>Inserted</TableHead>
+                      <TableHead>Updated</TableHead>
+                      <TableHead>Deleted</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {counts.map(([entity, c]) => (
+                      <TableRow key={entity}>
+                        <TableCell className="font-medium capitalize">{entity}</TableCell>
+                        <TableCell>{c.inserted}</TableCell>
+                        <TableCell>{c.updated}</TableCell>
+                        <TableCell>{c.deleted}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <h3 className="font-semibold">Week-parse failures ({failures.length})</h3>
+              {failures.length === 0 ? (
+                <p className="text-muted-foreground">None</p>
+              ) : (
+                <ul className="list-disc pl-5 space-y-1">
+                  {failures.map((f) => (
+                    <li key={f.gid}>
+                      <span className="font-mono text-xs">{f.gid}</span> {f.name ?? '<no-name>'}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,10 @@
+import { Badge } from '@/components/ui/badge'
+
+export function SyncRunStatusBadge({ status }: { status: string }) {
+  if (status === 'success') return <Badge variant="success">Success</Badge>
+  if (status === 'failed') return <Badge variant="alert">Failed</Badge>
+  if (status === 'aborted') return <Badge variant="warning">Aborted</Badge>
+  if (status === 'cancelled') return <Badge variant="secondary">Cancelled</Badge>
+  if (status === 'running') return <Badge variant="info">Running</Badge>
+  return <Badge variant="outline">{status}</Badge>
+}
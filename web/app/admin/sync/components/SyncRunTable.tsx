@@ -0,0 +1,127 @@
+'use client'
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import { Button } from '@/components/ui/button'
+import { CustomPagination } from '@/app/admin/user/components/CustomPagination'
+import { Eye } from 'lucide-react'
+import { SyncRunStatusBadge } from './SyncRunStatusBadge'
+import { formatDuration, formatProgress, type PaginationInfo, type SyncRunSummary } from './types'
+
+interface SyncRunTableProps {
+  runs: SyncRunSummary[]
+  isLoading: boolean
+  pagination: PaginationInfo
+  onPageChange: (page: number) => void
+  onRunSelect: (run: SyncRunSummary) => void
+}
+
+const COLUMNS = ['Run', 'Started', 'Trigger', 'Mode', 'Status', 'Duration']
+
+export function SyncRunTable({
+  runs,
+  isLoading,
+  pagination,
+  onPageChange,
+  onRunSelect,
+}: SyncRunTableProps) {
+  if (isLoading) {
+    return (
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {COLUMNS.map((c) => <TableHead key={c}>{c}</TableHead>)}
+              <TableHead className="w-[80px]">Detail</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {Array.from({ length: 5 }).map((_, i) => (
+              <TableRow key={i}>
+                {Array.from({ length: COLUMNS.length + 1 }).map((__, j) => (
+                  <TableCell key={j}>
+                    <div className="h-4 bg-muted animate-pulse rounded" />
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    )
+  }
+
+  if (runs.length === 0) {
+    return (
+      <div className="border rounded-lg p-8 text-center">
+        <p className="text-muted-foreground">No sync runs recorded yet.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {COLUMNS.map((c) => <TableHead key={c}>{c}</TableHead>)}
+              <TableHead className="w-[80px]">Detail</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {runs.map((run) => (
+              <TableRow key={run.id}>
+                <TableCell className="font-medium">#{run.id}</TableCell>
+                <TableCell className="whitespace-nowrap">{new Date(run.started_at).toLocaleString()}</TableCell>
+                <TableCell>
+                  <div className="flex flex-col">
+                    <span className="capitalize">{run.trigger}</span>
+                    {run.triggered_by && <span className="text-xs text-muted-foreground">{run.triggered_by}</span>}
+                  </div>
+                </TableCell>
+                <TableCell className="capitalize">{run.mode}</TableCell>
+                <TableCell>
+                  <div className="flex flex-col gap-1">
+                    <SyncRunStatusBadge status={run.status} />
+                    {run.status === 'running' && run.progress && (
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">{formatProgress(run.progress)}</span>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell>{formatDuration(run.duration_ms)}</TableCell>
+                <TableCell>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onRunSelect(run)}
+                  >
+                    <Eye className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* Pagination */}
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-muted-foreground">
+          Showing {((pagination.page - 1) * pagination.limit) + 1} to {Math.min(pagination.page * pagination.limit, pagination.total)} of {pagination.total} runs
+        </div>
+        <CustomPagination
+          currentPage={pagination.page}
+          totalPages={pagination.totalPages}
+          onPageChange={onPageChange}
+        />
+      </div>
+    </div>
+  )
+}
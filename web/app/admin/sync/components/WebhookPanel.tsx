@@ -0,0 +1,131 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Webhook } from 'lucide-react'
+
+interface WebhookState {
+  resourceGid: string
+  webhookGid: string | null
+  target: string
+  status: string
+  error: string | null
+  updatedAt: string | null
+  lastEventAt: string | null
+}
+
+export function WebhookPanel() {
+  const [webhooks, setWebhooks] = useState<WebhookState[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isRegistering, setIsRegistering] = useState(false)
+  const [error, setError] = useState('')
+
+  const fetchWebhook = async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/asana/webhook/register')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to fetch webhook')
+      setWebhooks(data.webhooks)
+    } catch (err) {
+      console.error('Error fetching webhook:', err)
+      setError(err instanceof Error ? err.message : 'Failed to fetch webhook')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Register or refresh the webhook on every synced project
+  const handleRegister = async () => {
+    setIsRegistering(true)
+    setError('')
+    try {
+      const response = await fetch('/api/asana/webhook/register', { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to register webhook')
+      setWebhooks(data.webhooks)
+    } catch (err) {
+      console.error('Error registering webhook:', err)
+      setError(err instanceof Error ? err.message : 'Failed to register webhook')
+      await fetchWebhook()
+    } finally {
+      setIsRegistering(false)
+    }
+  }
+
+  // Initial load
+  useEffect(() => {
+    fetchWebhook()
+  }, [])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Asana Webhook</CardTitle>
+        <CardDescription>
+          Near-real-time updates for task, subtask and follower changes, one webhook per synced project
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {error && (
+            <div className="bg-destructive/15 text-destructive text-sm p-3 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Project</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Webhook</TableHead>
+                  <TableHead>Last event</TableHead>
+                  <TableHead>Error</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">Loading...</TableCell>
+                  </TableRow>
+                ) : webhooks.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">No projects configured</TableCell>
+                  </TableRow>
+                ) : (
+                  webhooks.map((webhook) => (
+                    <TableRow key={webhook.resourceGid}>
+                      <TableCell className="font-mono text-xs">{webhook.resourceGid}</TableCell>
+                      <TableCell>
+                        {webhook.status === 'unregistered' ? (
+                          <Badge variant="outline">Not registered</Badge>
+                        ) : (
+                          <Badge variant={webhook.status === 'active' ? 'success' : webhook.status === 'failed' ? 'alert' : 'info'} className="capitalize">
+                            {webhook.status}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{webhook.webhookGid ?? '-'}</TableCell>
+                      <TableCell>{webhook.lastEventAt ? new Date(webhook.lastEventAt).toLocaleString() : '-'}</TableCell>
+                      <TableCell className="text-destructive break-words max-w-xs">{webhook.error ?? ''}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <Button onClick={handleRegister} disabled={isRegistering}>
+            <Webhook className="h-4 w-4 mr-2" />
+            {isRegistering ? 'Registering...' : 'Register / Refresh Webhooks'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,63 @@
+export interface SyncRunSummary {
+  id: number
+  trigger: string
+  triggered_by: string | null
+  mode: string
+  status: string
+  started_at: string
+  finished_at: string | null
+  duration_ms: number | null
+  progress: SyncProgress | null
+  error: string | null
+}
+
+export interface SyncProgress {
+  stage: string
+  done: number
+  total: number
+  failed: number
+  retried: number
+}
+
+export interface ChangeCounts {
+  inserted: number
+  updated: number
+  deleted: number
+}
+
+export interface SyncRunDetail extends SyncRunSummary {
+  counts: Record<string, ChangeCounts> | null
+  parse_failures: Array<{ gid: string; name?: string }> | null
+  request_stats: RequestStats | null
+  cancel_requested_at: string | null
+  cancel_requested_by: string | null
+}
+
+export interface RequestStats {
+  batch: boolean
+  batchRequests: number
+  batchActions: number
+  callsSaved: number
+  retries: number
+}
+
+export interface PaginationInfo {
+  page: number
+  limit: number
+  total: number
+  totalPages: number
+}
+
+export function formatProgress(progress: SyncProgress | null) {
+  if (!progress) return null
+  const pct = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 100
+  return `${progress.stage} ${progress.done}/${progress.total} (${pct}%)`
+}
+
+export function formatDuration(ms: number | null) {
+  if (ms == null) return '-'
+  if (ms < 1000) return `${ms} ms`
+  const seconds = Math.round(ms / 1000)
+  if (seconds < 60) return `${seconds}s`
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
@@ -0,0 +1,322 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { ArrowLeft, Play } from 'lucide-react'
+import { formatProgress, type SyncProgress } from '../../components/types'
+import type { AssigneeRemap, ChangedRow, DiffValue, DryRunResult, RowDiff, RowRef } from './types'
+
+// Long lists are cut so a first full reload does not render every row
+const MAX_ROWS = 200
+
+type DiffKind = 'added' | 'removed' | 'changed'
+
+const KIND_BADGES: Record<AssigneeRemap['kind'], { label: string; variant: 'info' | 'warning' | 'alert' }> = {
+  new: { label: 'New', variant: 'info' },
+  changed: { label: 'Changed', variant: 'warning' },
+  conflict: { label: 'Conflict', variant: 'alert' },
+}
+
+const formatValue = (value: DiffValue) => (value === null ? '-' : String(value))
+
+// `initialRunId` opens an earlier dry run, e.g. from the sync history
+export function DryRunReport({ initialRunId = null }: { initialRunId?: number | null }) {
+  const [result, setResult] = useState<DryRunResult | null>(null)
+  // Dry run followed through its event stream
+  const [runId, setRunId] = useState<number | null>(initialRunId)
+  const [isRunning, setIsRunning] = useState(initialRunId != null)
+  const [progress, setProgress] = useState<SyncProgress | null>(null)
+  const [isStarting, setIsStarting] = useState(false)
+  const [error, setError] = useState('')
+
+  // Start a dry run. The request returns the run id at once; fetching what a
+  // full reload would takes as long as the reload's fetch.
+  const handleRun = async () => {
+    setIsStarting(true)
+    setError('')
+    try {
+      const response = await fetch('/api/sync', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ dryRun: true }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Dry run failed')
+      setResult(null)
+      setProgress(null)
+      setIsRunning(true)
+      setRunId(data.runId)
+    } catch (err) {
+      console.error('Error running dry run:', err)
+      setError(err instanceof Error ? err.message : 'Dry run failed')
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  // Follow the run, then load its diff from the run once it finished. A run
+  // that already finished sends `done` at once.
+  useEffect(() => {
+    if (runId == null) return
+    const events = new EventSource(`/api/sync/runs/${runId}/events`)
+    events.addEventListener('progress', (e) => {
+      setProgress(JSON.parse((e as MessageEvent).data).progress)
+    })
+    events.addEventListener('done', async (e) => {
+      events.close()
+      const data = JSON.parse((e as MessageEvent).data)
+      try {
+        if (data.status !== 'success') throw new Error(data.error || `Dry run ${data.status}`)
+        const response = await fetch(`/api/sync/runs/${runId}`)
+        const body = await response.json()
+        if (!response.ok) throw new Error(body.error || 'Failed to fetch dry run')
+        if (!body.run.result) throw new Error(`Sync run ${runId} is not a dry run`)
+        setResult(body.run.result)
+      } catch (err) {
+        console.error('Error loading dry run:', err)
+        setError(err instanceof Error ? err.message : 'Dry run failed')
+      } finally {
+        setIsRunning(false)
+        setProgress(null)
+      }
+    })
+    events.onerror = () => {
+      events.close()
+      setIsRunning(false)
+      setProgress(null)
+      setError(`Lost the progress of dry run ${runId}; open it again from Sync Runs once it has finished`)
+    }
+    return () => events.close()
+  }, [runId])
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Full Reload Preview</CardTitle>
+          <CardDescription>
+            Reads every synced project from Asana and compares it with the current tables. Nothing is written besides the run in the sync history.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Button onClick={handleRun} disabled={isStarting || isRunning}>
+                <Play className="h-4 w-4 mr-2" />
+                {isStarting || isRunning ? 'Running...' : 'Run Dry Run'}
+              </Button>
+              <Button variant="outline" asChild>
+                <a href="/admin/sync">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Sync Runs
+                </a>
+              </Button>
+            </div>
+
+            {isRunning && runId != null && (
+              <p className="text-sm text-muted-foreground">
+                Dry run #{runId}: {formatProgress(progress) ?? 'starting...'}
+              </p>
+            )}
+
+            {error && (
+              <div className="bg-destructive/15 text-destructive text-sm p-3 rounded-md">
+                {error}
+              </div>
+            )}
+
+            {result && (
+              <div className="flex flex-wrap gap-2 text-sm">
+                {runId != null && <Badge variant="secondary">Run #{runId}</Badge>}
+                <Badge variant="outline">{result.projects} projects</Badge>
+                <Badge variant="outline">{result.sections} sections</Badge>
+                <Badge variant="outline">{result.tasks} tasks</Badge>
+                <Badge variant="outline">{result.subtasks} subtasks</Badge>
+                <Badge variant="outline">
+                  {result.requests.retries} retries{result.requests.batch ? `, ${result.requests.callsSaved} calls saved by batching` : ''}
+                </Badge>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <>
+          <RowDiffCard title="Tasks" diff={result.diff.tasks} />
+          <RowDiffCard title="Subtasks" diff={result.diff.subtasks} />
+          <AssigneeRemapCard remaps={result.diff.assigneeRemaps} />
+          <WeekFailureCard failures={result.diff.weekParseFailures} />
+        </>
+      )}
+    </div>
+  )
+}
+
+function RowDiffCard({ title, diff }: { title: string; diff: RowDiff }) {
+  const [kind, setKind] = useState<DiffKind>('changed')
+  const rows: Array<RowRef | ChangedRow> = diff[kind]
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>
+          {diff.added.length} added, {diff.removed.length} removed, {diff.changed.length} changed
+        </CardDescription>
+        <div className="flex gap-2 pt-2">
+          {(['changed', 'added', 'removed'] as DiffKind[]).map((k) => (
+            <Button key={k} variant={kind === k ? 'default' : 'outline'} size="sm" onClick={() => setKind(k)}>
+              {k[0].toUpperCase() + k.slice(1)} ({diff[k].length})
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>GID</TableHead>
+                {kind === 'changed' && <TableHead>Changes</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={kind === 'changed' ? 3 : 2} className="text-center text-muted-foreground">Nothing {kind}</TableCell>
+                </TableRow>
+              ) : (
+                rows.slice(0, MAX_ROWS).map((row) => (
+                  <TableRow key={row.gid}>
+                    <TableCell>{row.name || '-'}</TableCell>
+                    <TableCell className="font-mono text-xs">{row.gid}</TableCell>
+                    {'fields' in row && (
+                      <TableCell>
+                        <div className="flex flex-col gap-1 text-xs">
+                          {row.fields.map((f) => (
+                            <span key={f.field}>
+                              <span className="font-medium">{f.field}</span>: <span className="text-muted-foreground line-through">{formatValue(f.before)}</span> → {formatValue(f.after)}
+                            </span>
+                          ))}
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+        {rows.length > MAX_ROWS && (
+          <p className="text-xs text-muted-foreground pt-2">Showing {MAX_ROWS} of {rows.length}</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function AssigneeRemapCard({ remaps }: { remaps: AssigneeRemap[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Assignee Remaps</CardTitle>
+        <CardDescription>
+          Mapping proposals the sync would leave pending; review them in <a href="/admin/assignee-mappings" className="underline">Assignee Mapping</a>
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead>Asana User</TableHead>
+                <TableHead>Match</TableHead>
+                <TableHead>Linked Today</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {remaps.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">No assignee remaps</TableCell>
+                </TableRow>
+              ) : (
+                remaps.map((r) => (
+                  <TableRow key={`${r.email}:${r.asanaGid}`}>
+                    <TableCell>{r.email}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-col">
+                        <span>{r.asanaName || '-'}</span>
+                        <span className="text-xs text-muted-foreground">{r.asanaEmail || '-'}</span>
+                        <span className="font-mono text-xs text-muted-foreground">{r.asanaGid}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-col gap-1 items-start">
+                        <div className="flex gap-1">
+                          <Badge variant={KIND_BADGES[r.kind].variant}>{KIND_BADGES[r.kind].label}</Badge>
+                          <Badge variant="outline">{r.source}</Badge>
+                        </div>
+                        {r.note && <span className="text-xs text-muted-foreground">{r.note}</span>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{r.currentGid || '-'}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+function WeekFailureCard({ failures }: { failures: RowRef[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Week Parse Failures</CardTitle>
+        <CardDescription>
+          Tasks whose name gives no week; set their week in <a href="/admin/weeks" className="underline">Weeks</a>
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>GID</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {failures.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={2} className="text-center text-muted-foreground">Every task name gives a week</TableCell>
+                </TableRow>
+              ) : (
+                failures.slice(0, MAX_ROWS).map((f) => (
+                  <TableRow key={f.gid}>
+                    <TableCell>{f.name || '-'}</TableCell>
+                    <TableCell className="font-mono text-xs">{f.gid}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+        {failures.length > MAX_ROWS && (
+          <p className="text-xs text-muted-foreground pt-2">Showing {MAX_ROWS} of {failures.length}</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,52 @@
+// Mirrors DryRunResult and SyncDiff in lib/asana.ts and lib/syncDiff.ts
+export type DiffValue = string | number | boolean | null
+
+export interface RowRef {
+  gid: string
+  name: string | null
+}
+
+export interface ChangedRow extends RowRef {
+  fields: Array<{ field: string; before: DiffValue; after: DiffValue }>
+}
+
+export interface RowDiff {
+  added: RowRef[]
+  removed: RowRef[]
+  changed: ChangedRow[]
+}
+
+export interface AssigneeRemap {
+  email: string
+  asanaGid: string
+  asanaName: string | null
+  asanaEmail: string | null
+  source: 'team' | 'workspace'
+  kind: 'new' | 'changed' | 'conflict'
+  // Asana user the email is linked to today, if any
+  currentGid: string | null
+  note: string | null
+}
+
+export interface SyncDiff {
+  tasks: RowDiff
+  subtasks: RowDiff
+  assigneeRemaps: AssigneeRemap[]
+  weekParseFailures: RowRef[]
+}
+
+export interface DryRunResult {
+  dryRun: true
+  projects: number
+  sections: number
+  tasks: number
+  subtasks: number
+  diff: SyncDiff
+  requests: {
+    batch: boolean
+    batchRequests: number
+    batchActions: number
+    callsSaved: number
+    retries: number
+  }
+}
@@ -0,0 +1,19 @@
+import { DryRunReport } from './components/DryRunReport'
+
+// `?run=<id>` shows the result of an earlier dry run
+export default async function AdminSyncDryRunPage({ searchParams }: { searchParams: Promise<{ run?: string }> }) {
+  const { run } = await searchParams
+  const runId = Number(run)
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex flex-col gap-4">
+        <h1 className="text-3xl font-bold">Sync Dry Run</h1>
+        <p className="text-muted-foreground">
+          See what a full reload would change before running it: tasks and subtasks added, removed and changed, assignee remaps and week parse failures.
+        </p>
+      </div>
+
+      <DryRunReport initialRunId={run && Number.isInteger(runId) ? runId : null} />
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+import { Suspense } from 'react'
+import { SyncConsole } from './components/SyncConsole'
+import { WebhookPanel } from './components/WebhookPanel'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+
+export default function AdminSyncPage() {
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex flex-col gap-4">
+        <h1 className="text-3xl font-bold">Asana Sync</h1>
+        <p className="text-muted-foreground">
+          Review past sync runs and start a new sync from Asana.
+        </p>
+      </div>
+
+      <Suspense fallback={<SyncConsoleSkeleton />}>
+        <SyncConsole />
+      </Suspense>
+
+      <WebhookPanel />
+    </div>
+  )
+}
+
+function SyncConsoleSkeleton() {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          <Skeleton className="h-6 w-48" />
+        </CardTitle>
+        <CardDescription>
+          <Skeleton className="h-4 w-64" />
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="flex gap-4">
+            <Skeleton className="h-10 w-40" />
+            <Skeleton className="h-10 w-32" />
+          </div>
+          <div className="border rounded-lg">
+            {Array.from({ length: 5 }).map((_, i) => (
+              <div key={i} className="p-4 border-b last:border-b-0">
+                <div className="flex gap-4">
+                  <Skeleton className="h-4 w-12" />
+                  <Skeleton className="h-4 w-32" />
+                  <Skeleton className="h-4 w-20" />
+                  <Skeleton className="h-4 w-20" />
+                  <Skeleton className="h-4 w-24" />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
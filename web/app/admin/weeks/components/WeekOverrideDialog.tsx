@@ -0,0 +1,136 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import dayjs from 'dayjs'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import type { WeekOverride } from './types'
+
+export interface WeekOverrideForm {
+  week_startdate: string
+  week_enddate: string
+  note: string
+}
+
+interface WeekOverrideDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  task: { gid: string; name: string | null; week_startdate: string | null; override: WeekOverride | null } | null
+  onSave: (gid: string, form: WeekOverrideForm) => Promise<void>
+}
+
+const toDateInput = (value: string | null | undefined) => value ? dayjs(value).format('YYYY-MM-DD') : ''
+
+export function WeekOverrideDialog({
+  isOpen,
+  onClose,
+  task,
+  onSave,
+}: WeekOverrideDialogProps) {
+  const [formData, setFormData] = useState<WeekOverrideForm>({ week_startdate: '', week_enddate: '', note: '' })
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  // Start from the existing override, else from the week the sync fell back to
+  useEffect(() => {
+    if (isOpen && task) {
+      setFormData({
+        week_startdate: toDateInput(task.override?.week_startdate ?? task.week_startdate),
+        week_enddate: toDateInput(task.override?.week_enddate),
+        note: task.override?.note || '',
+      })
+      setError('')
+    }
+  }, [isOpen, task])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!task) return
+    setIsLoading(true)
+    setError('')
+
+    try {
+      await onSave(task.gid, formData)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Set Week</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="bg-destructive/15 text-destructive text-sm p-3 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <div className="text-sm">
+            <div>{task?.name || '-'}</div>
+            <div className="font-mono text-xs text-muted-foreground">{task?.gid}</div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="week_startdate">Week Start *</Label>
+            <Input
+              id="week_startdate"
+              type="date"
+              value={formData.week_startdate}
+              onChange={(e) => setFormData(prev => ({ ...prev, week_startdate: e.target.value }))}
+              disabled={isLoading}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="week_enddate">Week End</Label>
+            <Input
+              id="week_enddate"
+              type="date"
+              value={formData.week_enddate}
+              min={formData.week_startdate || undefined}
+              onChange={(e) => setFormData(prev => ({ ...prev, week_enddate: e.target.value }))}
+              disabled={isLoading}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="note">Note</Label>
+            <Input
+              id="note"
+              value={formData.note}
+              onChange={(e) => setFormData(prev => ({ ...prev, note: e.target.value }))}
+              disabled={isLoading}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={isLoading}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isLoading || !formData.week_startdate}
+            >
+              {isLoading ? 'Saving...' : 'Save Week'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
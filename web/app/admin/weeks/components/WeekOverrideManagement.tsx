@@ -0,0 +1,238 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import dayjs from 'dayjs'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { CalendarDays, Trash2 } from 'lucide-react'
+import { WeekOverrideDialog, type WeekOverrideForm } from './WeekOverrideDialog'
+import type { OverriddenTask, WeekOverride, WeekParseFailure } from './types'
+
+type EditingTask = { gid: string; name: string | null; week_startdate: string | null; override: WeekOverride | null }
+
+const formatDay = (value: string | null | undefined) => value ? dayjs(value).format('DD/MM/YYYY') : '-'
+
+const formatWeek = (start: string | null, end: string | null) => end ? `${formatDay(start)} - ${formatDay(end)}` : formatDay(start)
+
+export function WeekOverrideManagement() {
+  const [failures, setFailures] = useState<WeekParseFailure[]>([])
+  const [overrides, setOverrides] = useState<OverriddenTask[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [editingTask, setEditingTask] = useState<EditingTask | null>(null)
+
+  // Fetch unparsed tasks and overrides
+  const fetchWeeks = async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/week-overrides')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to fetch week overrides')
+      setFailures(data.failures)
+      setOverrides(data.overrides)
+    } catch (err) {
+      console.error('Error fetching week overrides:', err)
+      setError(err instanceof Error ? err.message : 'Failed to fetch week overrides')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Handle override create/update
+  const handleSave = async (gid: string, form: WeekOverrideForm) => {
+    const response = await fetch(`/api/week-overrides/${gid}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        week_startdate: form.week_startdate,
+        week_enddate: form.week_enddate || null,
+        note: form.note || null,
+      }),
+    })
+
+    if (!response.ok) {
+      const data = await response.json()
+      throw new Error(data.error || 'Failed to save week override')
+    }
+
+    await fetchWeeks()
+    setEditingTask(null)
+  }
+
+  // Handle override delete
+  const handleDelete = async (gid: string) => {
+    if (!confirm('Remove this override? The task gets its week from its name again on the next sync.')) return
+
+    try {
+      const response = await fetch(`/api/week-overrides/${gid}`, {
+        method: 'DELETE',
+      })
+      if (!response.ok) throw new Error('Failed to delete week override')
+      await fetchWeeks()
+    } catch (err) {
+      console.error('Error deleting week override:', err)
+      setError(err instanceof Error ? err.message : 'Failed to delete week override')
+    }
+  }
+
+  // Initial load
+  useEffect(() => {
+    fetchWeeks()
+  }, [])
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-destructive/15 text-destructive text-sm p-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Unparsed Tasks</CardTitle>
+          <CardDescription>
+            No week could be read from these task names; without an override the sync uses the created or due date
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Asana Task</TableHead>
+                  <TableHead>Project</TableHead>
+                  <TableHead>Current Week</TableHead>
+                  <TableHead>Last Seen</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading && failures.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">Loading...</TableCell>
+                  </TableRow>
+                ) : failures.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">Every synced task name has a week</TableCell>
+                  </TableRow>
+                ) : (
+                  failures.map((failure) => (
+                    <TableRow key={failure.task_gid}>
+                      <TableCell>
+                        <div className="flex flex-col">
+                          <span>{failure.name || '-'}</span>
+                          <span className="font-mono text-xs text-muted-foreground">{failure.task_gid}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell>{failure.projectName || failure.project || '-'}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2 whitespace-nowrap">
+                          {failure.override
+                            ? formatWeek(failure.override.week_startdate, failure.override.week_enddate)
+                            : formatDay(failure.week_startdate)}
+                          <Badge variant={failure.override ? 'success' : 'outline'}>
+                            {failure.override ? 'Override' : 'Fallback'}
+                          </Badge>
+                        </div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{new Date(failure.last_seen_at).toLocaleString()}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setEditingTask({ gid: failure.task_gid, name: failure.name, week_startdate: failure.week_startdate, override: failure.override })}
+                        >
+                          <CalendarDays className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Week Overrides</CardTitle>
+          <CardDescription>
+            Overrides win over the task name and are kept by every sync until removed
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Asana Task</TableHead>
+                  <TableHead>Week</TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead>Updated</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading && overrides.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">Loading...</TableCell>
+                  </TableRow>
+                ) : overrides.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">No week overrides</TableCell>
+                  </TableRow>
+                ) : (
+                  overrides.map((override) => (
+                    <TableRow key={override.task_gid}>
+                      <TableCell>
+                        <div className="flex flex-col">
+                          <span>{override.name || '-'}</span>
+                          <span className="font-mono text-xs text-muted-foreground">{override.task_gid}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{formatWeek(override.week_startdate, override.week_enddate)}</TableCell>
+                      <TableCell>{override.note || '-'}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-col text-xs">
+                          <span className="whitespace-nowrap">{new Date(override.updated_at).toLocaleString()}</span>
+                          <span className="text-muted-foreground">{override.updated_by || '-'}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex gap-2 justify-end">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setEditingTask({ gid: override.task_gid, name: override.name, week_startdate: override.week_startdate, override })}
+                          >
+                            <CalendarDays className="h-4 w-4" />
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => handleDelete(override.task_gid)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <WeekOverrideDialog
+        isOpen={!!editingTask}
+        onClose={() => setEditingTask(null)}
+        task={editingTask}
+        onSave={handleSave}
+      />
+    </div>
+  )
+}
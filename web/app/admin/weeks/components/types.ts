@@ -0,0 +1,25 @@
+export interface WeekOverride {
+  task_gid: string
+  week_startdate: string
+  week_enddate: string | null
+  note: string | null
+  updated_by: string | null
+  updated_at: string
+}
+
+export interface WeekParseFailure {
+  task_gid: string
+  name: string | null
+  project: string | null
+  projectName: string | null
+  first_seen_at: string
+  last_seen_at: string
+  // Week currently stored for the task (YYYY-MM-DD): the override, or the created_at/due_on fallback
+  week_startdate: string | null
+  created_at: string | null
+  override: WeekOverride | null
+}
+
+export interface OverriddenTask extends WeekOverride {
+  name: string | null
+}
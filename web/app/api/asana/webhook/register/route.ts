@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { authorizeSyncRequest } from "@/lib/auth";
+import { getProjectWebhookStates, registerProjectWebhooks } from "@/lib/asanaWebhook";
+
+// GET /api/asana/webhook/register - Current webhook registration of every synced project
+export async function GET(req: Request) {
+  const auth = await authorizeSyncRequest(req);
+  if (!auth.ok) {
+    return NextResponse.json({ ok: false, error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const webhooks = await getProjectWebhookStates();
+    return NextResponse.json({ ok: true, webhooks });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
+
+// POST /api/asana/webhook/register - Register or refresh the webhook on every synced project
+export async function POST(req: Request) {
+  const auth = await authorizeSyncRequest(req);
+  if (!auth.ok) {
+    return NextResponse.json({ ok: false, error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const webhooks = await registerProjectWebhooks();
+    console.log(`[webhook] registration refreshed by ${auth.principal}`);
+    return NextResponse.json({ ok: true, webhooks });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
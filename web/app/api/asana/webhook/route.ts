@@ -0,0 +1,48 @@
+import { NextResponse, after, type NextRequest } from "next/server";
+import { completeHandshake, handleWebhookEvents, verifySignature, type AsanaWebhookEvent } from "@/lib/asanaWebhook";
+
+// POST /api/asana/webhook?resource=<gid> - Asana webhook receiver.
+// The first request carries X-Hook-Secret (handshake) and must be echoed back;
+// every later request is signed with X-Hook-Signature and carries events.
+export async function POST(req: NextRequest) {
+  const url = new URL(req.url);
+  const resource = url.searchParams.get("resource");
+  if (!resource) {
+    return NextResponse.json({ ok: false, error: "missing required query param 'resource'" }, { status: 400 });
+  }
+
+  try {
+    const hookSecret = req.headers.get("x-hook-secret");
+    if (hookSecret) {
+      const accepted = await completeHandshake(resource, hookSecret);
+      if (!accepted) {
+        return NextResponse.json({ ok: false, error: "no pending webhook registration for this resource" }, { status: 403 });
+      }
+      console.log(`[webhook] handshake completed for resource ${resource}`);
+      return new NextResponse(null, { status: 200, headers: { "X-Hook-Secret": hookSecret } });
+    }
+
+    const signature = req.headers.get("x-hook-signature");
+    const rawBody = await req.text();
+    if (!signature || !(await verifySignature(resource, rawBody, signature))) {
+      return NextResponse.json({ ok: false, error: "invalid signature" }, { status: 401 });
+    }
+
+    const body = JSON.parse(rawBody || "{}") as { events?: AsanaWebhookEvent[] };
+    const events = body.events ?? [];
+    // Asana expects a fast acknowledgement; fetching changed tasks happens after the response.
+    if (events.length > 0) {
+      after(async () => {
+        try {
+          await handleWebhookEvents(resource, events);
+        } catch (e) {
+          console.error("[webhook] failed to apply events:", e);
+        }
+      });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { authorizeSyncRequest } from '@/lib/auth'
+import { approveAssigneeProposal, rejectAssigneeProposal } from '@/lib/assigneeMapping'
+
+// PUT /api/assignee-mappings/[id] - Approve ({ status: 'approved' }) or reject a pending proposal
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorizeSyncRequest(request)
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const id = Number((await params).id)
+    if (!Number.isInteger(id)) {
+      return NextResponse.json(
+        { error: 'Invalid proposal id' },
+        { status: 400 }
+      )
+    }
+    const body = await request.json() as { status?: string }
+    if (body.status !== 'approved' && body.status !== 'rejected') {
+      return NextResponse.json(
+        { error: "status must be 'approved' or 'rejected'" },
+        { status: 400 }
+      )
+    }
+
+    const result = body.status === 'approved'
+      ? await approveAssigneeProposal(id, auth.principal)
+      : await rejectAssigneeProposal(id, auth.principal)
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+    return NextResponse.json({ message: `Proposal ${body.status} successfully` })
+  } catch (error) {
+    console.error('Error reviewing assignee mapping:', error)
+    return NextResponse.json(
+      { error: 'Failed to review assignee mapping' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { authorizeSyncRequest } from '@/lib/auth'
+import { approveAllAssigneeProposals } from '@/lib/assigneeMapping'
+
+// POST /api/assignee-mappings/approve-all - Approve every pending proposal that is not a conflict
+export async function POST(request: Request) {
+  const auth = await authorizeSyncRequest(request)
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const result = await approveAllAssigneeProposals(auth.principal)
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error approving assignee mappings:', error)
+    return NextResponse.json(
+      { error: 'Failed to approve assignee mappings' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server'
+import { authorizeSyncRequest } from '@/lib/auth'
+import { listAssigneeProposals, type ProposalStatus } from '@/lib/assigneeMapping'
+import { refreshAssigneeMappings } from '@/lib/asana'
+
+const STATUSES: ProposalStatus[] = ['pending', 'approved', 'rejected']
+
+// GET /api/assignee-mappings?status=pending - Proposed links between mas_user emails and Asana users
+export async function GET(request: Request) {
+  const auth = await authorizeSyncRequest(request)
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const status = new URL(request.url).searchParams.get('status')
+    if (status && !STATUSES.includes(status as ProposalStatus)) {
+      return NextResponse.json(
+        { error: `status must be one of ${STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    const proposals = await listAssigneeProposals((status as ProposalStatus) || undefined)
+    return NextResponse.json({ proposals })
+  } catch (error) {
+    console.error('Error fetching assignee mappings:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch assignee mappings' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/assignee-mappings - Read the Asana users again and update the proposals without a sync
+export async function POST(request: Request) {
+  const auth = await authorizeSyncRequest(request)
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const result = await refreshAssigneeMappings()
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error refreshing assignee mappings:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to refresh assignee mappings' },
+      { status: 500 }
+    )
+  }
+}
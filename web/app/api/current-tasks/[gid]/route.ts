@@ -0,0 +1,17 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getTaskDetail } from "@/lib/data";
+
+// GET /api/current-tasks/[gid] - One subtask with its comments and activity
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ gid: string }> }) {
+  try {
+    const { gid } = await params;
+    const task = await getTaskDetail(gid);
+    if (!task) {
+      return NextResponse.json({ ok: false, error: "task not found" }, { status: 404 });
+    }
+    return NextResponse.json({ task });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
@@ -15,7 +15,9 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ ok: false, error: "missing required query param 'assignee'" }, { status: 400 });
     }
 
-    const result = await getCurrentTasks(assignee, { status: status as StatusFilter, page, pageSize });
+    const project = url.searchParams.get("project");
+
+    const result = await getCurrentTasks(assignee, { status: status as StatusFilter, page, pageSize, project });
     return NextResponse.json(result);
   } catch (e: unknown) {
     const message = e instanceof Error ? e.message : String(e);
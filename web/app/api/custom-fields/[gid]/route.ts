@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authorizeSyncRequest } from '@/lib/auth'
+
+// PUT /api/custom-fields/[gid] - Show a custom field as a table column and/or report dimension
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ gid: string }> }
+) {
+  const auth = await authorizeSyncRequest(request)
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const { gid } = await params
+    const body = await request.json() as {
+      show_in_table?: boolean
+      report_dimension?: boolean
+    }
+
+    const existing = await prisma.custom_fields.findUnique({ where: { gid } })
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Custom field not found' },
+        { status: 404 }
+      )
+    }
+
+    const field = await prisma.custom_fields.update({
+      where: { gid },
+      data: {
+        ...(body.show_in_table !== undefined ? { show_in_table: body.show_in_table } : {}),
+        ...(body.report_dimension !== undefined ? { report_dimension: body.report_dimension } : {}),
+      },
+    })
+
+    return NextResponse.json({ field })
+  } catch (error) {
+    console.error('Error updating custom field:', error)
+    return NextResponse.json(
+      { error: 'Failed to update custom field' },
+      { status: 500 }
+    )
+  }
+}
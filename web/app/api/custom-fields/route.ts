@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { authorizeSyncRequest } from '@/lib/auth'
+import { listCustomFields } from '@/lib/customFields'
+
+// GET /api/custom-fields - Asana custom fields seen by the sync and how they are displayed
+export async function GET(request: Request) {
+  const auth = await authorizeSyncRequest(request)
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const fields = await listCustomFields()
+    return NextResponse.json({ fields })
+  } catch (error) {
+    console.error('Error fetching custom fields:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch custom fields' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { authorizeSyncRequest } from '@/lib/auth'
+import { promoteExternalUser } from '@/lib/externalUsers'
+
+// POST /api/external-users/[gid]/promote - Add the person to mas_user and move their subtasks over
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ gid: string }> }
+) {
+  const auth = await authorizeSyncRequest(request)
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const { gid } = await params
+    const body = await request.json().catch(() => ({})) as {
+      email?: string | null
+      firstname?: string | null
+      lastname?: string | null
+      departmentid?: string | null
+    }
+
+    const result = await promoteExternalUser(gid, {
+      email: body.email,
+      firstname: body.firstname,
+      lastname: body.lastname,
+      deptid: body.departmentid,
+    })
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+    console.log(`[external-users] ${auth.principal} promoted ${gid} to ${result.email}`)
+    return NextResponse.json({ email: result.email, subtasks: result.subtasks, followers: result.followers })
+  } catch (error) {
+    console.error('Error promoting external user:', error)
+    return NextResponse.json(
+      { error: 'Failed to promote external user' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { authorizeSyncRequest } from '@/lib/auth'
+import { listExternalUsers } from '@/lib/externalUsers'
+
+// GET /api/external-users - Asana users outside mas_user on synced subtasks, most frequent first
+export async function GET(request: Request) {
+  const auth = await authorizeSyncRequest(request)
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const users = await listExternalUsers()
+    return NextResponse.json({ users })
+  } catch (error) {
+    console.error('Error fetching external users:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch external users' },
+      { status: 500 }
+    )
+  }
+}
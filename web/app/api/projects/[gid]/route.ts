@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authorizeSyncRequest } from '@/lib/auth'
+
+// PUT /api/projects/[gid] - Rename or enable/disable a synced project
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ gid: string }> }
+) {
+  const auth = await authorizeSyncRequest(request)
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const { gid } = await params
+    const body = await request.json() as {
+      name?: string | null
+      enabled?: boolean
+    }
+
+    const existing = await prisma.sync_projects.findUnique({ where: { gid } })
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    const project = await prisma.sync_projects.update({
+      where: { gid },
+      data: {
+        ...(body.name !== undefined ? { name: body.name?.trim() || null } : {}),
+        ...(body.enabled !== undefined ? { enabled: body.enabled } : {}),
+      },
+    })
+
+    return NextResponse.json({ project })
+  } catch (error) {
+    console.error('Error updating project:', error)
+    return NextResponse.json(
+      { error: 'Failed to update project' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/projects/[gid] - Remove a project (and its section mapping) from the sync.
+// Its tasks are removed by the next sync.
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ gid: string }> }
+) {
+  const auth = await authorizeSyncRequest(request)
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const { gid } = await params
+
+    const existing = await prisma.sync_projects.findUnique({ where: { gid } })
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.sync_projects.delete({ where: { gid } })
+
+    return NextResponse.json({ message: 'Project removed successfully' })
+  } catch (error) {
+    console.error('Error deleting project:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete project' },
+      { status: 500 }
+    )
+  }
+}
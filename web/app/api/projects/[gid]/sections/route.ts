@@ -0,0 +1,106 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authorizeSyncRequest } from '@/lib/auth'
+import { fetchProjectSections } from '@/lib/asana'
+import { saveSectionMappings, type SectionMapping } from '@/lib/syncProjects'
+
+// GET /api/projects/[gid]/sections - Live Asana sections of the project merged with the saved mapping
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ gid: string }> }
+) {
+  const auth = await authorizeSyncRequest(request)
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const { gid } = await params
+
+    const project = await prisma.sync_projects.findUnique({
+      where: { gid },
+      include: { sync_project_sections: true },
+    })
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    const saved = new Map(project.sync_project_sections.map((s) => [s.section_gid, s]))
+    const live = await fetchProjectSections(gid)
+    const sections = live.map((s) => ({
+      section_gid: s.gid,
+      name: s.name,
+      deptid: saved.get(s.gid)?.deptid ?? null,
+      excluded: saved.get(s.gid)?.excluded ?? false,
+    }))
+
+    return NextResponse.json({ sections })
+  } catch (error) {
+    console.error('Error fetching project sections:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch project sections' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/projects/[gid]/sections - Replace the section mapping of the project
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ gid: string }> }
+) {
+  const auth = await authorizeSyncRequest(request)
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const { gid } = await params
+    const body = await request.json() as { sections?: Partial<SectionMapping>[] }
+
+    if (!Array.isArray(body.sections)) {
+      return NextResponse.json(
+        { error: 'sections must be an array' },
+        { status: 400 }
+      )
+    }
+
+    const project = await prisma.sync_projects.findUnique({ where: { gid } })
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    // Only rows that carry a mapping are stored; unmapped sections sync as-is
+    const mappings: SectionMapping[] = body.sections
+      .filter((s): s is Partial<SectionMapping> & { section_gid: string } => typeof s.section_gid === 'string')
+      .map((s) => ({ section_gid: s.section_gid, deptid: s.deptid || null, excluded: Boolean(s.excluded) }))
+      .filter((s) => s.deptid || s.excluded)
+
+    const deptids = Array.from(new Set(mappings.map((m) => m.deptid).filter((d): d is string => !!d)))
+    if (deptids.length > 0) {
+      const known = await prisma.mas_department.count({ where: { deptid: { in: deptids } } })
+      if (known !== deptids.length) {
+        return NextResponse.json(
+          { error: 'Unknown department in section mapping' },
+          { status: 400 }
+        )
+      }
+    }
+
+    await saveSectionMappings(gid, mappings)
+
+    return NextResponse.json({ sections: mappings })
+  } catch (error) {
+    console.error('Error saving project sections:', error)
+    return NextResponse.json(
+      { error: 'Failed to save project sections' },
+      { status: 500 }
+    )
+  }
+}
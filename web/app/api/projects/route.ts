@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authorizeSyncRequest } from '@/lib/auth'
+import { listProjects } from '@/lib/syncProjects'
+
+// GET /api/projects - Asana projects included in the sync
+export async function GET(request: Request) {
+  const auth = await authorizeSyncRequest(request)
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const projects = await listProjects()
+    return NextResponse.json({ projects })
+  } catch (error) {
+    console.error('Error fetching projects:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch projects' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/projects - Add an Asana project to the sync
+export async function POST(request: Request) {
+  const auth = await authorizeSyncRequest(request)
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const body = await request.json() as {
+      gid?: string
+      name?: string | null
+      enabled?: boolean
+    }
+    const gid = body.gid?.trim()
+
+    if (!gid || !/^\d+$/.test(gid)) {
+      return NextResponse.json(
+        { error: 'A numeric Asana project gid is required' },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.sync_projects.findUnique({ where: { gid } })
+    if (existing) {
+      return NextResponse.json(
+        { error: 'Project is already configured' },
+        { status: 409 }
+      )
+    }
+
+    const project = await prisma.sync_projects.create({
+      data: {
+        gid,
+        name: body.name?.trim() || null,
+        enabled: body.enabled ?? true,
+      },
+    })
+
+    return NextResponse.json({ project }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating project:', error)
+    return NextResponse.json(
+      { error: 'Failed to create project' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server'
+import { authorizeSyncRequest } from '@/lib/auth'
+import { forceReleaseSyncLock, getSyncLockState } from '@/lib/syncLock'
+
+// GET /api/sync/lock - Show who holds the sync lock and whether it is stale
+export async function GET(request: Request) {
+  const auth = await authorizeSyncRequest(request)
+  if (!auth.ok) {
+    return NextResponse.json(
+      { error: auth.error },
+      { status: auth.status }
+    )
+  }
+
+  try {
+    const lock = await getSyncLockState()
+    return NextResponse.json({ lock })
+  } catch (error) {
+    console.error('Error fetching sync lock:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch sync lock' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/sync/lock - Force release the sync lock after a crashed run.
+// Refuses to release a live lease unless `?force=1` is given.
+export async function DELETE(request: Request) {
+  const auth = await authorizeSyncRequest(request)
+  if (!auth.ok) {
+    return NextResponse.json(
+      { error: auth.error },
+      { status: auth.status }
+    )
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const force = searchParams.get('force') === '1'
+    const state = await getSyncLockState()
+    if (state.held && !state.stale && !force) {
+      return NextResponse.json(
+        { error: 'Sync lock is held by a live run', lock: state },
+        { status: 409 }
+      )
+    }
+
+    const released = await forceReleaseSyncLock()
+    console.log(`[sync-lock] released by ${auth.principal}`)
+    return NextResponse.json({ released })
+  } catch (error) {
+    console.error('Error releasing sync lock:', error)
+    return NextResponse.json(
+      { error: 'Failed to release sync lock' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,11 +1,53 @@
-import { NextResponse } from "next/server";
-import { syncFromAsana } from "@/lib/asana";
+import { NextResponse, type NextRequest } from "next/server";
+import { startDryRun, startSync, type SyncMode } from "@/lib/asana";
+import { authorizeSyncRequest } from "@/lib/auth";
+import type { SyncTrigger } from "@/lib/syncRuns";
+import { SyncInProgressError } from "@/lib/syncLock";
+
+// POST /api/sync - Start an Asana sync and answer 202 with its run id, not the
+// sync result. Defaults to an incremental sync; pass `{ "mode": "full" }` (or
+// `?mode=full`) to wipe and reload every table.
+// The sync history records where the run came from: `manual` for an admin
+// session, and for the service key `api` or, when it says so with
+// `{ "trigger": "cron" }`, `cron`. A caller cannot claim another origin.
+// The sync runs in the background: its progress streams from
+// GET /api/sync/runs/[id]/events, its outcome is on GET /api/sync/runs/[id],
+// and POST /api/sync/runs/[id]/cancel stops it.
+// `{ "dryRun": true }` (or `?dryRun=true`) starts a dry run the same way: it
+// fetches what a full reload would and, once done, its diff with the live
+// tables is the `result` of GET /api/sync/runs/[id]. Nothing else is written.
+// Requires the SYNC_SERVICE_KEY bearer token or an admin session.
+export async function POST(req: NextRequest) {
+  const auth = await authorizeSyncRequest(req);
+  if (!auth.ok) {
+    return NextResponse.json({ ok: false, error: auth.error }, { status: auth.status });
+  }
 
-export async function POST() {
   try {
-    const result = await syncFromAsana();
-    return NextResponse.json({ ok: true, result });
+    const url = new URL(req.url);
+    const body = (await req.json().catch(() => ({}))) as { mode?: string; trigger?: string; dryRun?: boolean };
+    const dryRun = body.dryRun === true || url.searchParams.get("dryRun") === "true";
+    const mode = (body.mode ?? url.searchParams.get("mode") ?? "incremental").toLowerCase();
+    if (!dryRun && mode !== "full" && mode !== "incremental") {
+      return NextResponse.json({ ok: false, error: `invalid mode '${mode}', expected 'full' or 'incremental'` }, { status: 400 });
+    }
+    const requested = (body.trigger ?? url.searchParams.get("trigger"))?.toLowerCase();
+    const allowed: SyncTrigger[] = auth.kind === "admin" ? ["manual"] : ["api", "cron"];
+    if (requested && !allowed.includes(requested as SyncTrigger)) {
+      return NextResponse.json({ ok: false, error: `trigger '${requested}' is not allowed for ${auth.kind === "admin" ? "an admin session" : "the service key"}, expected one of ${allowed.join(", ")}` }, { status: 400 });
+    }
+    const trigger = (requested ?? allowed[0]) as SyncTrigger;
+
+    const { runId, done } = dryRun
+      ? await startDryRun({ trigger, triggeredBy: auth.principal })
+      : await startSync({ mode: mode as SyncMode, trigger, triggeredBy: auth.principal });
+    // The outcome is recorded on the run; nobody awaits it here
+    done.catch(() => {});
+    return NextResponse.json({ ok: true, runId, status: "running", dryRun }, { status: 202 });
   } catch (e: unknown) {
+    if (e instanceof SyncInProgressError) {
+      return NextResponse.json({ ok: false, error: e.message, runId: e.runId, lockExpiresAt: e.expiresAt }, { status: 409 });
+    }
     const message = e instanceof Error ? e.message : String(e);
     return NextResponse.json({ ok: false, error: message }, { status: 500 });
   }
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server'
+import { authorizeSyncRequest } from '@/lib/auth'
+import { requestSyncCancel } from '@/lib/syncRuns'
+
+// POST /api/sync/runs/[id]/cancel - Ask a running sync to stop. The sync stops
+// at its next checkpoint between stages, before it writes to the synced
+// tables, and the run ends as `cancelled`. A run already writing finishes.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorizeSyncRequest(request)
+  if (!auth.ok) {
+    return NextResponse.json(
+      { error: auth.error },
+      { status: auth.status }
+    )
+  }
+
+  try {
+    const { id } = await params
+    const runId = Number(id)
+    if (!Number.isInteger(runId)) {
+      return NextResponse.json(
+        { error: 'Invalid run id' },
+        { status: 400 }
+      )
+    }
+
+    const result = await requestSyncCancel(runId, auth.principal)
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Sync run not found' },
+        { status: 404 }
+      )
+    }
+    if (result.status !== 'running') {
+      return NextResponse.json(
+        { error: `Sync run is already ${result.status}` },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { runId, cancelRequestedAt: result.cancelRequestedAt },
+      { status: 202 }
+    )
+  } catch (error) {
+    console.error('Error cancelling sync run:', error)
+    return NextResponse.json(
+      { error: 'Failed to cancel sync run' },
+      { status: 500 }
+    )
+  }
+}
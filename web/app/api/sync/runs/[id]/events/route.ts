@@ -0,0 +1,105 @@
+import { NextResponse } from 'next/server'
+import { authorizeSyncRequest } from '@/lib/auth'
+import { getSyncRun } from '@/lib/syncRuns'
+
+// The stream reads the run from the database, so it follows a sync whichever
+// process runs it
+const POLL_MS = 1000
+// Comment lines keep proxies such as nginx from closing a quiet stream
+const HEARTBEAT_MS = 15000
+
+// GET /api/sync/runs/[id]/events - Stream a sync run as server-sent events:
+// `progress` (stage, done/total) whenever it changes, then `done` with the
+// outcome once the run has finished, after which the stream ends
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorizeSyncRequest(request)
+  if (!auth.ok) {
+    return NextResponse.json(
+      { error: auth.error },
+      { status: auth.status }
+    )
+  }
+
+  const { id } = await params
+  const runId = Number(id)
+  if (!Number.isInteger(runId)) {
+    return NextResponse.json(
+      { error: 'Invalid run id' },
+      { status: 400 }
+    )
+  }
+  if (!(await getSyncRun(runId))) {
+    return NextResponse.json(
+      { error: 'Sync run not found' },
+      { status: 404 }
+    )
+  }
+
+  const encoder = new TextEncoder()
+  let closed = false
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (text: string) => {
+        if (!closed) controller.enqueue(encoder.encode(text))
+      }
+      const send = (event: string, data: unknown) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+
+      let last = ''
+      let lastWrite = Date.now()
+      try {
+        while (!closed && !request.signal.aborted) {
+          const run = await getSyncRun(runId)
+          if (!run) break
+
+          const cancelRequested = run.cancel_requested_at != null
+          const key = JSON.stringify([run.progress, cancelRequested])
+          if (key !== last) {
+            send('progress', { runId, progress: run.progress, cancelRequested })
+            last = key
+            lastWrite = Date.now()
+          }
+          if (run.status !== 'running') {
+            send('done', {
+              runId,
+              status: run.status,
+              error: run.error,
+              counts: run.counts,
+              finished_at: run.finished_at,
+              duration_ms: run.duration_ms,
+            })
+            break
+          }
+          if (Date.now() - lastWrite >= HEARTBEAT_MS) {
+            write(': keep-alive\n\n')
+            lastWrite = Date.now()
+          }
+          await new Promise((resolve) => setTimeout(resolve, POLL_MS))
+        }
+      } catch (error) {
+        console.error('Error streaming sync run:', error)
+        send('error', { error: 'Failed to read sync run' })
+      } finally {
+        if (!closed) {
+          closed = true
+          controller.close()
+        }
+      }
+    },
+    cancel() {
+      closed = true
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // nginx would otherwise buffer the stream until it ends
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { authorizeSyncRequest } from '@/lib/auth'
+import { getSyncRun } from '@/lib/syncRuns'
+
+// GET /api/sync/runs/[id] - Get the full detail of a sync run
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorizeSyncRequest(request)
+  if (!auth.ok) {
+    return NextResponse.json(
+      { error: auth.error },
+      { status: auth.status }
+    )
+  }
+
+  try {
+    const { id } = await params
+    const runId = Number(id)
+    if (!Number.isInteger(runId)) {
+      return NextResponse.json(
+        { error: 'Invalid run id' },
+        { status: 400 }
+      )
+    }
+
+    const run = await getSyncRun(runId)
+    if (!run) {
+      return NextResponse.json(
+        { error: 'Sync run not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ run })
+  } catch (error) {
+    console.error('Error fetching sync run:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch sync run' },
+      { status: 500 }
+    )
+  }
+}
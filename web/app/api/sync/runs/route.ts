@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { authorizeSyncRequest } from '@/lib/auth'
+import { listSyncRuns } from '@/lib/syncRuns'
+
+// GET /api/sync/runs - List past sync runs, newest first
+export async function GET(request: Request) {
+  const auth = await authorizeSyncRequest(request)
+  if (!auth.ok) {
+    return NextResponse.json(
+      { error: auth.error },
+      { status: auth.status }
+    )
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '20')
+
+    const { runs, total } = await listSyncRuns({ page, limit })
+
+    return NextResponse.json({
+      runs,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching sync runs:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch sync runs' },
+      { status: 500 }
+    )
+  }
+}
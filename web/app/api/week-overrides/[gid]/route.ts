@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authorizeSyncRequest } from '@/lib/auth'
+import { clearWeekOverride, setWeekOverride } from '@/lib/weekOverrides'
+import { parseReportDate } from '@/lib/reportTime'
+
+// YYYY-MM-DD as the start of that day in REPORT_TIMEZONE, like the dates parsed from task names
+const parseDay = (value: unknown) => typeof value === 'string' ? parseReportDate(value) : null
+
+// PUT /api/week-overrides/[gid] - Set the week of a task by hand; later syncs keep it
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ gid: string }> }
+) {
+  const auth = await authorizeSyncRequest(request)
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const { gid } = await params
+    const body = await request.json() as {
+      week_startdate?: string
+      week_enddate?: string | null
+      note?: string | null
+    }
+
+    const start = parseDay(body.week_startdate)
+    if (!start) {
+      return NextResponse.json(
+        { error: 'week_startdate must be a date (YYYY-MM-DD)' },
+        { status: 400 }
+      )
+    }
+    const end = body.week_enddate ? parseDay(body.week_enddate) : null
+    if (body.week_enddate && !end) {
+      return NextResponse.json(
+        { error: 'week_enddate must be a date (YYYY-MM-DD)' },
+        { status: 400 }
+      )
+    }
+    if (end && end < start) {
+      return NextResponse.json(
+        { error: 'week_enddate must not be before week_startdate' },
+        { status: 400 }
+      )
+    }
+
+    const task = await prisma.tasks.findUnique({ where: { gid }, select: { gid: true } })
+    if (!task) {
+      return NextResponse.json(
+        { error: 'Task not found' },
+        { status: 404 }
+      )
+    }
+
+    const override = await setWeekOverride(gid, { start, end, note: body.note?.trim() || null }, auth.principal)
+    return NextResponse.json({ override })
+  } catch (error) {
+    console.error('Error saving week override:', error)
+    return NextResponse.json(
+      { error: 'Failed to save week override' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/week-overrides/[gid] - Go back to the week parsed from the task name on the next sync
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ gid: string }> }
+) {
+  const auth = await authorizeSyncRequest(request)
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const { gid } = await params
+    const removed = await clearWeekOverride(gid)
+    if (!removed) {
+      return NextResponse.json(
+        { error: 'Week override not found' },
+        { status: 404 }
+      )
+    }
+    return NextResponse.json({ message: 'Week override removed successfully' })
+  } catch (error) {
+    console.error('Error deleting week override:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete week override' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { authorizeSyncRequest } from '@/lib/auth'
+import { listWeekOverrides, listWeekParseFailures } from '@/lib/weekOverrides'
+
+// GET /api/week-overrides - Tasks whose week could not be parsed, and the manual week overrides
+export async function GET(request: Request) {
+  const auth = await authorizeSyncRequest(request)
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const [failures, overrides] = await Promise.all([listWeekParseFailures(), listWeekOverrides()])
+    return NextResponse.json({ failures, overrides })
+  } catch (error) {
+    console.error('Error fetching week overrides:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch week overrides' },
+      { status: 500 }
+    )
+  }
+}
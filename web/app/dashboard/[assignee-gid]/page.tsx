@@ -8,20 +8,30 @@ import SummaryMetricCard from "@/components/SummaryMatricCard";
 import WeeklySummaryChart from "@/components/WeeklySummaryChart";
 import CurrentTasksTable from "@/components/CurrentTasksTable";
 import AdminSection from "@/components/AdminSection";
-import { getAssigneeByGid, getLastSync, getSummaryMetrics, getWeeklySummary, getAssignees } from "@/lib/data";
+import ProjectFilter from "@/components/ProjectFilter";
+import CustomFieldBreakdownCard from "@/components/CustomFieldBreakdownCard";
+import CycleTimeCard from "@/components/CycleTimeCard";
+import { getAssigneeByGid, getLastSync, getSummaryMetrics, getWeeklySummary, getAssignees, getProjects, getCustomFieldBreakdowns, getCycleTimeMetrics, getTagBreakdown } from "@/lib/data";
+import { formatReportDate } from "@/lib/reportTime";
 import { redirect } from "next/navigation";
 
-export default async function DashboardPage({ params }: { params: unknown }) {
+export default async function DashboardPage({ params, searchParams }: { params: unknown; searchParams: unknown }) {
   // Next.js may provide `params` as a thenable; await it before accessing properties.
   const resolvedParams = (await params) as { "assignee-gid"?: string };
   const assigneeGid = resolvedParams["assignee-gid"];
   if (!assigneeGid) redirect("/");
+  const resolvedSearch = ((await searchParams) ?? {}) as { project?: string | string[] };
+  const project = typeof resolvedSearch.project === "string" && resolvedSearch.project ? resolvedSearch.project : null;
 
-  const [metrics, weekly, lastSync, assignee] = await Promise.all([
-    getSummaryMetrics(assigneeGid),
-    getWeeklySummary(assigneeGid),
+  const [metrics, weekly, lastSync, assignee, projects, breakdowns, cycleTime, tagBreakdown] = await Promise.all([
+    getSummaryMetrics(assigneeGid, { project }),
+    getWeeklySummary(assigneeGid, { project }),
     getLastSync(),
     getAssigneeByGid(assigneeGid),
+    getProjects(),
+    getCustomFieldBreakdowns(assigneeGid, { project }),
+    getCycleTimeMetrics(assigneeGid, { project }),
+    getTagBreakdown(assigneeGid, { project }),
   ]);
 
   // fetch assignees server-side and format for the AdminSection
@@ -45,11 +55,13 @@ export default async function DashboardPage({ params }: { params: unknown }) {
                 <h1 className="text-lg sm:text-2xl font-bold leading-tight">Dashboard Overview</h1>
                 <p className="text-sm sm:text-base font-light">{assignee?.name ?? assigneeGid}</p>
                 <p className="text-xs sm:text-sm text-gray-400">
-                  Last sync: {lastSync ? new Date(lastSync).toLocaleString() : '-'}
+                  Last sync: {lastSync ? formatReportDate(lastSync, "DD MMM YYYY HH:mm") : '-'}
                 </p>
               </div>
 
               <div className="flex items-center gap-2">
+                <ProjectFilter projects={projects} activeProject={project} />
+
                 <Button
                   aria-label="Export PDF"
                   title="Export PDF"
@@ -85,8 +97,13 @@ export default async function DashboardPage({ params }: { params: unknown }) {
         </Card>
   {showAdmin && <AdminSection assignees={assigneeOptions} activeAssigneeGid={assigneeGid} />}
         <SummaryMetricCard total={metrics.total} completed={metrics.completed} overdue={metrics.overdue} completionRate={metrics.completionRate} />
+        <CycleTimeCard metrics={cycleTime} />
         <WeeklySummaryChart data={weekly} />
-        <CurrentTasksTable assigneeGid={assigneeGid} />
+        {tagBreakdown && <CustomFieldBreakdownCard breakdown={tagBreakdown} />}
+        {breakdowns.map((b) => (
+          <CustomFieldBreakdownCard key={b.field.gid} breakdown={b} />
+        ))}
+        <CurrentTasksTable assigneeGid={assigneeGid} project={project} />
       </div>
     </div>
   );
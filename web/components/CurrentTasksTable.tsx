@@ -4,7 +4,7 @@ import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { MdOutlineAccessTime } from "react-icons/md";
 import { IoMdCheckmarkCircleOutline } from "react-icons/io";
-import { BsExclamationTriangle } from "react-icons/bs";
+import { BsExclamationTriangle, BsSlashCircle } from "react-icons/bs";
 import { FaList } from "react-icons/fa6";
 import {
   Table,
@@ -24,14 +24,16 @@ import {
   PaginationNext,
   PaginationPrevious,
 } from "./ui/pagination";
-import { CurrentTaskRow, StatusFilter } from "@/lib/types";
+import { CurrentTaskRow, CustomFieldColumn, StatusFilter } from "@/lib/types";
 import { useSearchParams } from "next/navigation";
+import TaskDetailDialog from "./TaskDetailDialog";
 
 type Props = {
   assigneeGid: string;
+  project?: string | null;
 };
 
-export default function CurrentTasksTable({ assigneeGid }: Props) {
+export default function CurrentTasksTable({ assigneeGid, project }: Props) {
   // const router = useRouter();
   // const pathname = usePathname();
   const sp = useSearchParams();
@@ -44,6 +46,8 @@ export default function CurrentTasksTable({ assigneeGid }: Props) {
   const [pageSize] = useState<number>(10);
   const [rows, setRows] = useState<CurrentTaskRow[]>([]);
   const [total, setTotal] = useState<number>(0);
+  const [customFieldColumns, setCustomFieldColumns] = useState<CustomFieldColumn[]>([]);
+  const [selectedGid, setSelectedGid] = useState<string | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
 
   const totalPages = Math.max(1, Math.ceil(total / pageSize));
@@ -85,6 +89,7 @@ export default function CurrentTasksTable({ assigneeGid }: Props) {
       qs.set("page", String(p));
       qs.set("pageSize", String(pageSize));
       qs.set("assignee", assigneeGid);
+      if (project) qs.set("project", project);
       const res = await fetch(`/api/current-tasks?${qs.toString()}`);
       if (!res.ok) throw new Error("Failed to fetch");
       const data = await res.json();
@@ -92,12 +97,13 @@ export default function CurrentTasksTable({ assigneeGid }: Props) {
       if (myId !== reqIdRef.current) return;
       setRows(data.rows ?? []);
       setTotal(data.total ?? 0);
+      setCustomFieldColumns(data.customFieldColumns ?? []);
     } catch (e) {
       console.error(e);
     } finally {
       if (myId === reqIdRef.current) setLoading(false);
     }
-  }, [assigneeGid, pageSize]);
+  }, [assigneeGid, project, pageSize]);
 
   useEffect(() => {
     // initial load or when assignee or initial params change
@@ -137,6 +143,10 @@ export default function CurrentTasksTable({ assigneeGid }: Props) {
               <BsExclamationTriangle className="w-4 h-4" />
               <span className="hidden sm:inline">Overdue</span>
               </Button>
+              <Button variant={status === 'blocked' ? 'default' : 'outline'} size="sm" className="flex items-center space-x-2" onClick={() => onChangeStatus?.('blocked')}>
+              <BsSlashCircle className="w-4 h-4" />
+              <span className="hidden sm:inline">Blocked</span>
+              </Button>
             </div>
           </div>
         </CardHeader>
@@ -150,6 +160,9 @@ export default function CurrentTasksTable({ assigneeGid }: Props) {
                 <TableHead className="w-1/6">Due Date</TableHead>
                 <TableHead className="w-1/6">Status</TableHead>
                 <TableHead className="w-1/6">Type</TableHead>
+                {customFieldColumns.map((f) => (
+                  <TableHead key={f.gid} className="w-1/6">{f.name}</TableHead>
+                ))}
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -174,13 +187,29 @@ export default function CurrentTasksTable({ assigneeGid }: Props) {
                       <TableCell>
                         <Skeleton className="inline-block h-6 px-3 w-28" />
                       </TableCell>
+                      {customFieldColumns.map((f) => (
+                        <TableCell key={f.gid}>
+                          <SkeletonText className="w-1/2" />
+                        </TableCell>
+                      ))}
                     </TableRow>
                   ))
                 : rows.map((r) => (
-                    <TableRow key={`${r.gid}-${r.type}`}>
+                    <TableRow key={`${r.gid}-${r.type}`} className="cursor-pointer" onClick={() => setSelectedGid(r.gid)}>
                       <TableCell className="font-medium">
                         <div className="flex flex-col">
                           <span className="font-medium block truncate">{r.name}</span>
+                          {r.parentSubtask && (
+                            <span className="text-sm text-gray-500 block truncate">Part of: {r.parentSubtask}</span>
+                          )}
+                          {r.blockedBy?.map((chain) => (
+                            <span key={chain.map((b) => b.gid).join('-')} className="text-sm text-yellow-700 block truncate">
+                              Blocked by: {chain.map((b) => b.name).join(' ← ')}
+                            </span>
+                          ))}
+                          {r.taskOwner && (
+                            <span className="text-sm text-gray-500 block truncate">Task owner: {r.taskOwner}</span>
+                          )}
                           {r.followers && r.followers.length > 0 && (
                             <span className="text-sm text-gray-500 block truncate">
                               Collaborators: {r.followers.map(f => `${f.first_name} ${f.last_name}`).join(", ")}
@@ -206,10 +235,18 @@ export default function CurrentTasksTable({ assigneeGid }: Props) {
                             <BsExclamationTriangle /> Overdue
                           </Badge>
                         )}
+                        {r.status === 'Blocked' && (
+                          <Badge variant="warning">
+                            <BsSlashCircle /> Blocked
+                          </Badge>
+                        )}
                       </TableCell>
                       <TableCell>
                         <Badge variant={r.type === 'Owner' ? 'default' : 'secondary'}>{r.type === 'Owner' ? 'Owner' : 'Collaborator'}</Badge>
                       </TableCell>
+                      {customFieldColumns.map((f) => (
+                        <TableCell key={f.gid} className="truncate">{r.customFields?.[f.gid] || '-'}</TableCell>
+                      ))}
                     </TableRow>
                   ))}
             </TableBody>
@@ -241,6 +278,7 @@ export default function CurrentTasksTable({ assigneeGid }: Props) {
           </div>
         </CardContent>
       </Card>
+      <TaskDetailDialog taskGid={selectedGid} onClose={() => setSelectedGid(null)} />
     </div>
   );
 }
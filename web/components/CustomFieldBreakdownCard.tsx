@@ -0,0 +1,54 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { CustomFieldBreakdown } from "@/lib/types";
+
+type Props = {
+  breakdown: CustomFieldBreakdown;
+};
+
+// Task counts per value of one custom field report dimension, or per tag
+export default function CustomFieldBreakdownCard({ breakdown }: Props) {
+  const { field, values } = breakdown;
+  return (
+    <div className="my-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Tasks by {field.name}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {values.length === 0 ? (
+            <p className="text-sm text-gray-500">No tasks</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-1/2">{field.name}</TableHead>
+                  <TableHead>Total</TableHead>
+                  <TableHead>Completed</TableHead>
+                  <TableHead>Overdue</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {values.map((v) => (
+                  <TableRow key={v.value}>
+                    <TableCell className="font-medium truncate">{v.value}</TableCell>
+                    <TableCell>{v.total}</TableCell>
+                    <TableCell>{v.completed}</TableCell>
+                    <TableCell>{v.overdue}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
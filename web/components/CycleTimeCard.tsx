@@ -0,0 +1,88 @@
+import { MdOutlineTimer, MdOutlineEventRepeat } from "react-icons/md";
+import { IoMdRefresh } from "react-icons/io";
+import { FiClock } from "react-icons/fi";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type { CycleTimeMetrics } from "@/lib/types";
+
+type Props = {
+  metrics: CycleTimeMetrics;
+};
+
+const days = (value: number | null) => (value == null ? "-" : `${value}d`);
+
+export default function CycleTimeCard({ metrics }: Props) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 my-8">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Lead Time</CardTitle>
+            <div className="w-8 h-8 rounded-full bg-blue-50 flex items-center justify-center">
+              <FiClock className="text-blue-500" />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="text-3xl font-bold">{days(metrics.avgLeadTime)}</div>
+          <CardDescription className="text-xs text-gray-500">
+            Average from created to completed (median {days(metrics.medianLeadTime)}, {metrics.completed} subtasks)
+          </CardDescription>
+        </CardContent>
+      </Card>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Cycle Time</CardTitle>
+            <div className="w-8 h-8 rounded-full bg-green-50 flex items-center justify-center">
+              <MdOutlineTimer className="text-green-500" />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="text-3xl font-bold">{days(metrics.avgCycleTime)}</div>
+          <CardDescription className="text-xs text-gray-500">
+            Average from assigned to completed (median {days(metrics.medianCycleTime)})
+          </CardDescription>
+        </CardContent>
+      </Card>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Rescheduled</CardTitle>
+            <div className="w-8 h-8 rounded-full bg-yellow-50 flex items-center justify-center">
+              <MdOutlineEventRepeat className="text-yellow-500" />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="text-3xl font-bold">{metrics.reschedules}</div>
+          <CardDescription className="text-xs text-gray-500">
+            Due date changes across {metrics.rescheduledTasks} subtasks
+          </CardDescription>
+        </CardContent>
+      </Card>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Reopened</CardTitle>
+            <div className="w-8 h-8 rounded-full bg-gray-50 flex items-center justify-center">
+              <IoMdRefresh className="text-gray-500" />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="text-3xl font-bold">{metrics.reopened}</div>
+          <CardDescription className="text-xs text-gray-500">
+            Times a completed subtask was reopened
+          </CardDescription>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export type ProjectOption = { gid: string; name: string };
+
+// Narrows the dashboard to one Asana project via the `project` search param.
+export default function ProjectFilter({ projects, activeProject }: { projects: ProjectOption[]; activeProject?: string | null }) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const sp = useSearchParams();
+
+  // Nothing to choose from with a single project
+  if (projects.length < 2) return null;
+
+  const onChange = (value: string) => {
+    const usp = new URLSearchParams(sp?.toString());
+    // "__all" is a sentinel; Radix does not allow an empty Item value
+    if (value === "__all") usp.delete("project");
+    else usp.set("project", value);
+    usp.delete("page");
+    const qs = usp.toString();
+    router.push(`${pathname}${qs ? `?${qs}` : ""}`);
+  };
+
+  return (
+    <Select value={activeProject || "__all"} onValueChange={onChange}>
+      <SelectTrigger className="h-8 w-48" aria-label="Project">
+        <SelectValue placeholder="All projects" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="__all">All projects</SelectItem>
+        {projects.map((p) => (
+          <SelectItem key={p.gid} value={p.gid}>
+            {p.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
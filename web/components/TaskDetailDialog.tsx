@@ -0,0 +1,104 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "./ui/badge";
+import { SkeletonText } from "./ui/skeleton";
+import { MdOutlineComment, MdOutlineHistory } from "react-icons/md";
+import type { TaskDetail } from "@/lib/types";
+
+type Props = {
+  taskGid: string | null;
+  onClose: () => void;
+};
+
+// Subtask details with the comments and activity synced from Asana
+export default function TaskDetailDialog({ taskGid, onClose }: Props) {
+  const [task, setTask] = useState<TaskDetail | null>(null);
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => {
+    if (!taskGid) return;
+    let cancelled = false;
+    setTask(null);
+    setError("");
+    fetch(`/api/current-tasks/${taskGid}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Failed to fetch task");
+        if (!cancelled) setTask(data.task);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to fetch task");
+      });
+    return () => { cancelled = true; };
+  }, [taskGid]);
+
+  return (
+    <Dialog open={taskGid != null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{task?.name ?? "Task"}</DialogTitle>
+          {task?.parentName && <DialogDescription>{task.parentName}</DialogDescription>}
+        </DialogHeader>
+
+        {error && <div className="bg-destructive/15 text-destructive text-sm p-3 rounded-md">{error}</div>}
+
+        {!task && !error && (
+          <div className="flex flex-col space-y-2">
+            <SkeletonText className="w-3/4" />
+            <SkeletonText className="w-1/2" />
+            <SkeletonText className="w-2/3" />
+          </div>
+        )}
+
+        {task && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <span className="text-gray-500">Assignee</span>
+              <span>{task.assignee || "-"}</span>
+              <span className="text-gray-500">Task Owner</span>
+              <span>{task.taskOwner || "-"}</span>
+              <span className="text-gray-500">Week</span>
+              <span>{task.week || "-"}</span>
+              <span className="text-gray-500">Due Date</span>
+              <span>{task.due_on || "-"}</span>
+              <span className="text-gray-500">Status</span>
+              <span>
+                <Badge variant={task.status === "Completed" ? "success" : task.status === "Overdue" ? "destructive" : task.status === "Blocked" ? "warning" : "secondary"}>{task.status}</Badge>
+              </span>
+              <span className="text-gray-500">Tags</span>
+              <span className="flex flex-wrap gap-1">
+                {task.tags.length === 0 ? "-" : task.tags.map((t) => <Badge key={t} variant="outline">{t}</Badge>)}
+              </span>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold mb-2">Activity ({task.stories.length})</h3>
+              {task.stories.length === 0 ? (
+                <p className="text-sm text-gray-500">No comments or activity synced for this task.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {task.stories.map((s) => (
+                    <li key={s.gid} className="flex gap-2 text-sm">
+                      {s.type === "comment" ? (
+                        <MdOutlineComment className="mt-0.5 w-4 h-4 shrink-0 text-blue-500" />
+                      ) : (
+                        <MdOutlineHistory className="mt-0.5 w-4 h-4 shrink-0 text-gray-400" />
+                      )}
+                      <div className="flex flex-col min-w-0">
+                        <span className="text-xs text-gray-500">
+                          {s.author || "Asana"} · {s.created_at}
+                        </span>
+                        <span className={s.type === "comment" ? "whitespace-pre-wrap break-words" : "text-gray-600 break-words"}>{s.text || s.resource_subtype || "-"}</span>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
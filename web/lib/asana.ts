@@ -1,10 +1,31 @@
 import axios, { AxiosError, AxiosInstance } from "axios";
 import prisma from "./prisma";
+import { completeSyncRun, failSyncRun, isSyncCancelRequested, reportSyncProgress, startSyncRun, SyncCancelledError, type SyncProgress, type SyncTrigger } from "./syncRuns";
+import { acquireSyncLock, SyncInProgressError, type SyncLockHandle } from "./syncLock";
+import { CircuitOpenError, createRetryGuard, describeError, isTransientError, jitteredDelay, type RetryGuard } from "./asanaRetry";
+import { createFixtureSource, createRecordingSource } from "./fixtureSource";
+import type { AsanaSection, AsanaStory, AsanaSubtask, AsanaTask, AsanaTaskDetail, AsanaUser, ProgressListener, StoryWithTask, SubtaskWithParent, TaskSource } from "./taskSource";
+import { getSyncProjects, type SyncProject } from "./syncProjects";
+import { buildCustomFieldRows, collectCustomFieldDefinitions, CUSTOM_FIELD_OPT_FIELDS, pruneCustomFieldValues, recordCustomFieldDefinitions, replaceCustomFieldValues } from "./customFields";
+import { buildStoryRows, replaceTaskStories } from "./taskStories";
+import { previewAssigneeProposals, refreshAssigneeProposals } from "./assigneeMapping";
+import { snapshotClosedWeeks } from "./weeklySnapshots";
+import { diffAgainstLive, type SyncDiff } from "./syncDiff";
+import { pruneExternalUsers, recordExternalUsers, replaceExternalFollowers, type ExternalFollowerRow } from "./externalUsers";
+import { buildDependencyRows, linksBetween, replaceSubtaskDependencies } from "./subtaskDependencies";
+import { buildTaskSectionRows, buildTaskTagRows, collectTags, recordTags, replaceTaskMemberships } from "./taskMemberships";
+import { rebuildStatusEvents } from "./statusHistory";
+import { fetchSubtaskTree, subtaskGidsUnder, type SubtaskNode } from "./subtaskTree";
+import { createWeekNameParser, selectWeekPatterns } from "./weekName";
+import { loadWeekOverrides, recordWeekParseFailures, type WeekOverride } from "./weekOverrides";
+import { parseReportDate, startOfReportDay } from "./reportTime";
+import { clearStaging, insertInChunks, stageRows, swapStagingIntoLive, validateStaging, type StagedRows } from "./syncStaging";
 
 const ASANA_BASE_URL = process.env.ASANA_BASE_URL || "https://app.asana.com/api/1.0";
 const ASANA_TOKEN = process.env.ASANA_TOKEN as string;
-const ASANA_PROJECT_ID = process.env.ASANA_PROJECT_ID as string;
 const ASANA_TEAM_ID = process.env.ASANA_TEAM_ID as string | undefined;
+// Workspace whose user directory is matched to mas_user as well, for people in no synced team
+const ASANA_WORKSPACE_ID = process.env.ASANA_WORKSPACE_ID as string | undefined;
 // ASANA_RATE_LIMIT controls max requests per minute. Default 1500 requests/minute.
 // If the env is invalid or <= 0, we fall back to the default.
 const ASANA_RATE_LIMIT = (() => {
@@ -13,6 +34,41 @@ const ASANA_RATE_LIMIT = (() => {
   return Math.floor(raw);
 })();
 
+// Parent tasks whose subtasks are fetched at the same time. Requests still
+// start no faster than ASANA_RATE_LIMIT allows; more workers only help to
+// overlap request latency. Default 8.
+const ASANA_SUBTASK_CONCURRENCY = (() => {
+  const raw = Number(process.env.ASANA_SUBTASK_CONCURRENCY ?? 8);
+  if (!Number.isFinite(raw) || raw < 1) return 8;
+  return Math.floor(raw);
+})();
+// Extra attempts for a single parent task whose subtask fetch failed for a
+// reason withBackoff does not already retry (rate limits and transient errors). Default 3.
+const ASANA_SUBTASK_RETRIES = (() => {
+  const raw = Number(process.env.ASANA_SUBTASK_RETRIES ?? 3);
+  if (!Number.isFinite(raw) || raw < 0) return 3;
+  return Math.floor(raw);
+})();
+
+// Levels of subtasks read below each weekly task: 1 reads its subtasks only,
+// 2 also their subtasks, and so on. Default 3.
+const ASANA_SUBTASK_MAX_DEPTH = (() => {
+  const raw = Number(process.env.ASANA_SUBTASK_MAX_DEPTH ?? 3);
+  if (!Number.isFinite(raw) || raw < 1) return 3;
+  return Math.floor(raw);
+})();
+
+// ASANA_BATCH=1 groups subtask and story lookups into Asana /batch requests of
+// up to BATCH_MAX_ACTIONS actions, so one HTTP call (and one rate-limit slot)
+// covers up to 10 tasks. Followers come with the subtask fields, so they need
+// no lookups of their own.
+const ASANA_BATCH = process.env.ASANA_BATCH === "1" || process.env.ASANA_BATCH === "true";
+const BATCH_MAX_ACTIONS = 10;
+
+// ASANA_SYNC_STORIES=0 skips comments and activity of subtasks. Stories cost
+// one lookup per subtask, which roughly doubles the requests of a full sync.
+const ASANA_SYNC_STORIES = process.env.ASANA_SYNC_STORIES !== "0" && process.env.ASANA_SYNC_STORIES !== "false";
+
 // Compute milliseconds between request start times to keep under the minute limit
 const MS_PER_MINUTE = 60 * 1000;
 const msBetweenRequests = Math.max(0, Math.floor(MS_PER_MINUTE / ASANA_RATE_LIMIT));
@@ -44,157 +100,1076 @@ if (!ASANA_TOKEN) {
   // We allow import without env in dev, actual sync will throw if missing
 }
 
-function createClient(): AxiosInstance {
+// ASANA_REQUEST_TIMEOUT_MS aborts a request that has not completed in time so
+// it can be retried. Default 30 seconds.
+const ASANA_REQUEST_TIMEOUT_MS = (() => {
+  const raw = Number(process.env.ASANA_REQUEST_TIMEOUT_MS ?? 30000);
+  if (!Number.isFinite(raw) || raw <= 0) return 30000;
+  return Math.floor(raw);
+})();
+
+// Retry budget and circuit breaker of each client
+const retryGuards = new WeakMap<AxiosInstance, RetryGuard>();
+
+function createClient(guard: RetryGuard = createRetryGuard()): AxiosInstance {
   console.log(`[asana] creating axios client with base ${ASANA_BASE_URL}`);
-  const client = axios.create({ baseURL: ASANA_BASE_URL, headers: { Authorization: `Bearer ${ASANA_TOKEN}` } });
+  const client = axios.create({ baseURL: ASANA_BASE_URL, timeout: ASANA_REQUEST_TIMEOUT_MS, headers: { Authorization: `Bearer ${ASANA_TOKEN}` } });
+  retryGuards.set(client, guard);
   return client;
 }
 
-async function withBackoff<T>(fn: () => Promise<T>, attempt = 0): Promise<T> {
+// Run a request with retries: 429 waits for Retry-After, transient errors
+// (5xx, dropped connections, timeouts) back off exponentially with jitter and
+// count against the client's retry budget. Once the client's circuit breaker
+// is open every request fails fast with CircuitOpenError.
+async function withBackoff<T>(client: AxiosInstance, fn: () => Promise<T>, attempt = 0): Promise<T> {
+  const guard = retryGuards.get(client);
+  guard?.check();
   try {
     // Ensure we don't exceed ASANA_RATE_LIMIT: wait for our turn before each
     // network attempt. This spaces start times of requests.
     await waitForRateTurn();
-    return await fn();
+    const result = await fn();
+    guard?.recordSuccess();
+    return result;
   } catch (e) {
     const err = e as AxiosError;
     const status = err.response?.status;
-    console.log(`[asana] request failed (status=${status}) attempt=${attempt}`);
+    console.log(`[asana] request failed (${describeError(e)}) attempt=${attempt}`);
     if (status === 429 && attempt < 5) {
-      const retryAfter = Number(err.response?.headers?.["retry-after"]) || Math.min(2 ** attempt * 500, 5000);
+      // Retry-After is in seconds
+      const retryAfterSec = Number(err.response?.headers?.["retry-after"]);
+      const retryAfter = retryAfterSec > 0 ? retryAfterSec * 1000 : Math.min(2 ** attempt * 500, 5000);
       console.log(`[asana] rate limited, retrying after ${retryAfter}ms (attempt ${attempt + 1})`);
       await new Promise((r) => setTimeout(r, retryAfter));
-      return withBackoff(fn, attempt + 1);
+      return withBackoff(client, fn, attempt + 1);
+    }
+    if (guard && isTransientError(e)) {
+      if (!guard.recordTransientFailure(e, attempt)) {
+        // An open circuit stops the run with its reason rather than this request's error
+        guard.check();
+        throw e;
+      }
+      const delay = jitteredDelay(attempt);
+      console.log(`[asana] transient error, retrying after ${delay}ms (attempt ${attempt + 1})`);
+      await new Promise((r) => setTimeout(r, delay));
+      return withBackoff(client, fn, attempt + 1);
     }
     throw e;
   }
 }
 
-type AsanaUser = { gid: string; name?: string; email?: string };
-type AsanaSection = { gid: string; name: string };
-type AsanaTask = { gid: string; name?: string; due_on?: string | null; completed?: boolean; created_at?: string | null; memberships?: { section?: { gid?: string } }[]; week_startdate?: string | null };
-type AsanaSubtask = { gid: string; name?: string; completed?: boolean; created_at?: string | null; completed_at?: string | null; assignee?: AsanaUser | null; followers?: AsanaUser[]; due_on?: string | null };
+const TASK_OPT_FIELDS = `name,due_on,completed,created_at,modified_at,assignee,memberships.project,memberships.section,memberships.section.name,tags.name,tags.color,${CUSTOM_FIELD_OPT_FIELDS}`;
+const SUBTASK_OPT_FIELDS = `name,completed,created_at,completed_at,modified_at,assignee,assignee.name,assignee.email,followers,followers.name,followers.email,due_on,num_subtasks,dependencies,dependents,${CUSTOM_FIELD_OPT_FIELDS}`;
+const STORY_OPT_FIELDS = "created_at,created_by.name,created_by.email,type,resource_subtype,text";
+const TASK_DETAIL_OPT_FIELDS = `${TASK_OPT_FIELDS},${SUBTASK_OPT_FIELDS},memberships.section.name,parent,projects`;
+
+// sync_metadata key holding the start time of the last successful sync. The
+// incremental mode passes it to Asana as `modified_since`.
+const SYNC_CURSOR_KEY = "asana_sync_cursor";
+
+/**
+ * `full` wipes and reloads every synced table. `incremental` only writes rows
+ * that changed since the last successful sync and removes rows that no longer
+ * exist in Asana, so the dashboard keeps its data while the sync runs.
+ */
+export type SyncMode = "full" | "incremental";
+
+// `source` replaces the configured TaskSource, e.g. a fixture adapter in a script.
+// `dryRun` fetches what a full reload would and reports the differences with
+// the live tables instead of writing them (see DryRunResult).
+export type SyncOptions = { mode?: SyncMode; trigger?: SyncTrigger; triggeredBy?: string | null; source?: TaskSource; dryRun?: boolean };
+
+export type ChangeCounts = { inserted: number; updated: number; deleted: number };
+
+export type SyncResult = {
+  runId: number;
+  mode: SyncMode;
+  projects: number;
+  sections: number;
+  tasks: number;
+  subtasks: number;
+  changes: { sections: ChangeCounts; tasks: ChangeCounts; subtasks: ChangeCounts; followers: ChangeCounts; customFields: ChangeCounts; stories: ChangeCounts; statusEvents: ChangeCounts; taskTags: ChangeCounts; taskSections: ChangeCounts; dependencies: ChangeCounts; externalFollowers: ChangeCounts };
+  totals: ChangeCounts;
+  requests: RequestStats;
+  weekParseFailures: number;
+};
+
+/**
+ * Outcome of a dry run, kept as the `result` of its run in `sync_runs`. A dry
+ * run holds the sync lock like a real sync, so its diff never compares
+ * against tables that are being rewritten, and a run left behind by a dead
+ * process is marked abandoned when its lease is taken over.
+ */
+export type DryRunResult = {
+  dryRun: true;
+  projects: number;
+  sections: number;
+  tasks: number;
+  subtasks: number;
+  diff: SyncDiff;
+  requests: RequestStats;
+};
+
+/**
+ * HTTP usage of a sync run. `batchActions` is the number of subtask lookups
+ * sent through /batch and `callsSaved` the round trips that would have been
+ * needed on top of `batchRequests` without batching. `retries` counts requests
+ * retried after a transient error.
+ */
+export type RequestStats = { batch: boolean; batchRequests: number; batchActions: number; callsSaved: number; retries: number };
+
+type SectionRow = StagedRows["sections"][number];
+type TaskRow = StagedRows["tasks"][number];
+type SubtaskRow = StagedRows["subtasks"][number];
+type FollowerRow = StagedRows["followers"][number];
+
+type ParseFailure = { gid: string; name?: string };
+
+const emptyCounts = (): ChangeCounts => ({ inserted: 0, updated: 0, deleted: 0 });
+
+const stageProgress = (stage: string, done: number, total: number): SyncProgress => ({ stage, done, total, failed: 0, retried: 0 });
+
+// Per-run state threaded through the fetch stages. `checkpoint` throws
+// SyncCancelledError when the run was asked to stop; it is called between
+// stages, only while nothing has been written to the synced tables yet.
+// `lock` throws SyncLockLostError once another sync took the lease over; it is
+// checked before every write, so a run that lost its lock stops writing.
+type FetchContext = { onProgress?: ProgressListener; checkpoint?: (stage: string) => Promise<void>; lock?: Pick<SyncLockHandle, "assertHeld" | "verify">; stats: RequestStats; guard: RetryGuard };
+
+// ASANA_SOURCE=fixture replays the recorded files in ASANA_FIXTURE_DIR instead
+// of calling Asana. ASANA_FIXTURE_RECORD_DIR records what the live adapter
+// returns in the same layout, to create new fixtures.
+const ASANA_SOURCE = process.env.ASANA_SOURCE ?? "asana";
+const ASANA_FIXTURE_DIR = process.env.ASANA_FIXTURE_DIR;
+const ASANA_FIXTURE_RECORD_DIR = process.env.ASANA_FIXTURE_RECORD_DIR;
+
+/**
+ * The TaskSource configured by ASANA_SOURCE. `stats` and `guard` are the
+ * request counters and retry state of the run the live adapter works for.
+ */
+export function createTaskSource(stats: RequestStats = emptyRequestStats(), guard: RetryGuard = createRetryGuard()): TaskSource {
+  if (ASANA_SOURCE === "fixture") {
+    if (!ASANA_FIXTURE_DIR) throw new Error("ASANA_FIXTURE_DIR is required when ASANA_SOURCE=fixture");
+    return createFixtureSource(ASANA_FIXTURE_DIR);
+  }
+  if (ASANA_SOURCE !== "asana") throw new Error(`unknown ASANA_SOURCE '${ASANA_SOURCE}', expected 'asana' or 'fixture'`);
+  const source = createAsanaSource(stats, guard);
+  return ASANA_FIXTURE_RECORD_DIR ? createRecordingSource(source, ASANA_FIXTURE_RECORD_DIR) : source;
+}
 
-export async function syncFromAsana() {
-  if (!ASANA_PROJECT_ID) throw new Error("ASANA_PROJECT_ID is required");
+// Live adapter: every request goes through the rate limiter and the retries
+// and circuit breaker of `guard`.
+function createAsanaSource(stats: RequestStats, guard: RetryGuard): TaskSource {
   if (!ASANA_TOKEN) throw new Error("ASANA_TOKEN is required");
-  console.log(`[asana] starting sync for project ${ASANA_PROJECT_ID}`);
-  const client = createClient();
+  const client = createClient(guard);
+  return {
+    name: "asana",
+    listTeamUsers: (teamGid) => paginate<AsanaUser>(client, `/teams/${teamGid}/users`, { params: { opt_fields: "email,name" } }),
+    listWorkspaceUsers: (workspaceGid) => paginate<AsanaUser>(client, `/workspaces/${workspaceGid}/users`, { params: { opt_fields: "email,name" } }),
+    listSections: (projectGid) => paginate<AsanaSection>(client, `/projects/${projectGid}/sections`),
+    // Use the project tasks endpoint to avoid per-section fetching
+    listTasks: (projectGid) => paginate<AsanaTask>(client, `/projects/${projectGid}/tasks`, { params: { opt_fields: TASK_OPT_FIELDS } }),
+    listModifiedTasks: (projectGid, since) => paginate<AsanaTask>(client, `/tasks`, {
+      params: { project: projectGid, modified_since: since.toISOString(), opt_fields: TASK_OPT_FIELDS },
+    }),
+    async getTask(gid) {
+      try {
+        const res = await withBackoff(client, () => client.get(`/tasks/${gid}`, { params: { opt_fields: TASK_DETAIL_OPT_FIELDS } }));
+        return res.data?.data as AsanaTaskDetail;
+      } catch (e) {
+        if ((e as AxiosError).response?.status === 404) return null;
+        throw e;
+      }
+    },
+    listSubtasks: (parentGids, onProgress) => fetchSubtasks(client, parentGids, stats, onProgress),
+    listStories: (taskGids, onProgress) => fetchStories(client, taskGids, stats, onProgress),
+  };
+}
+
+const emptyRequestStats = (): RequestStats => ({ batch: ASANA_BATCH, batchRequests: 0, batchActions: 0, callsSaved: 0, retries: 0 });
+
+// Every call is recorded in `sync_runs`, whether it succeeds or fails. Only one
+// sync runs at a time, dry runs included: a concurrent call throws
+// SyncInProgressError.
+export async function syncFromAsana(opts: SyncOptions & { dryRun: true }): Promise<DryRunResult>;
+export async function syncFromAsana(opts?: SyncOptions & { dryRun?: false }): Promise<SyncResult>;
+export async function syncFromAsana(opts: SyncOptions = {}): Promise<SyncResult | DryRunResult> {
+  if (opts.dryRun) {
+    const { done } = await startDryRun(opts);
+    return done;
+  }
+  const { done } = await startSync(opts);
+  return done;
+}
+
+// Run mode recorded for dry runs in `sync_runs`
+const DRY_RUN_MODE = "dry-run";
+
+// Record the progress of run `runId` and stop it at the next checkpoint once
+// it is cancelled or, when `ctx.lock` is set, once the lock is lost.
+function trackRun(ctx: FetchContext, runId: number) {
+  // Progress is written best-effort; a failed write must not fail the sync.
+  ctx.onProgress = (progress) => {
+    reportSyncProgress(runId, progress).catch((e) => console.log(`[asana] could not record progress: ${e instanceof Error ? e.message : String(e)}`));
+  };
+  ctx.checkpoint = async (stage) => {
+    await ctx.lock?.verify();
+    if (await isSyncCancelRequested(runId)) throw new SyncCancelledError(runId, stage);
+  };
+}
 
-  // Note: destructive delete moved later — we must validate date conversions
-  // before removing existing data to avoid destructive failure.
-
-  // Optionally refresh assignees from team (unchanged behavior)
-  if (ASANA_TEAM_ID) {
-    console.log(`[asana] fetching team users for team ${ASANA_TEAM_ID}`);
-    const teamUsers: AsanaUser[] = await paginate<AsanaUser>(client, `/teams/${ASANA_TEAM_ID}/users`, { params: { opt_fields: "email,name" } });
-    
-    // filter only users from mas_user
-    const masUsers = await prisma.mas_user.findMany({ select: { email: true } });
-    const masUserEmails = new Set(masUsers.map(u => u.email.toLowerCase()));
-    const filteredTeamUsers = teamUsers.filter(u => u.email && masUserEmails.has(u.email.toLowerCase()));
-    console.log(`[asana] filtered team users to ${filteredTeamUsers.length} users present in mas_user table`);
-    
-    // Upsert to avoid breaking references
-    for (const u of filteredTeamUsers) {
-      await prisma.assignees.upsert({
-        where: { email: u.email ?? `${u.gid}@asana.local` },
-        update: { assignee_gid: u.gid },
-        create: { email: u.email ?? `${u.gid}@asana.local`, assignee_gid: u.gid},
+// A tripped circuit breaker or a cancel request stops the run on purpose;
+// keep them apart from crashes. A lost lock (SyncLockLostError) is a failure.
+const failedRunStatus = (e: unknown) => (e instanceof SyncCancelledError ? "cancelled" : e instanceof CircuitOpenError ? "aborted" : "failed");
+
+/**
+ * Start a dry run as a background job, like startSync: `runId` is its run in
+ * `sync_runs` (mode "dry-run"), which streams progress and can be cancelled,
+ * and `done` settles with the DryRunResult, also stored as the run's `result`.
+ * Throws SyncInProgressError when another sync or dry run holds the lock.
+ */
+export async function startDryRun(opts: Omit<SyncOptions, "mode" | "dryRun"> = {}): Promise<{ runId: number; done: Promise<DryRunResult> }> {
+  const ctx: FetchContext = { stats: emptyRequestStats(), guard: createRetryGuard() };
+  const source = opts.source ?? createTaskSource(ctx.stats, ctx.guard);
+  const lock = await acquireSyncLock();
+  let runId: number;
+  try {
+    const run = await startSyncRun({ trigger: opts.trigger ?? "api", triggeredBy: opts.triggeredBy, mode: DRY_RUN_MODE });
+    await lock.attachRun(run.id);
+    runId = run.id;
+  } catch (e) {
+    await lock.release();
+    throw e;
+  }
+  ctx.lock = lock;
+  trackRun(ctx, runId);
+
+  const done = (async () => {
+    try {
+      const result = await runDryRun(source, ctx);
+      // What the reload would insert, update and delete
+      const wouldChange = (d: SyncDiff["tasks"]): ChangeCounts => ({ inserted: d.added.length, updated: d.changed.length, deleted: d.removed.length });
+      await completeSyncRun(runId, {
+        mode: DRY_RUN_MODE,
+        counts: { tasks: wouldChange(result.diff.tasks), subtasks: wouldChange(result.diff.subtasks) },
+        parseFailures: result.diff.weekParseFailures,
+        requestStats: result.requests,
+        result,
       });
+      return result;
+    } catch (e) {
+      ctx.stats.retries = ctx.guard.retries;
+      const status = failedRunStatus(e);
+      console.log(`[asana] dry run ${runId} ${status}: ${e instanceof Error ? e.message : String(e)}`);
+      await failSyncRun(runId, e, { status, requestStats: ctx.stats });
+      throw e;
+    } finally {
+      await lock.release();
+      applyQueuedTaskChanges().catch((e) => console.log(`[asana] could not apply queued webhook changes: ${e instanceof Error ? e.message : String(e)}`));
     }
+  })();
+  return { runId, done };
+}
+
+/**
+ * Start a sync as a background job. Returns once the job holds the sync lock
+ * and has its run in `sync_runs`: `runId` identifies the job, and `done`
+ * settles with the outcome, which is recorded on the run either way. Throws
+ * SyncInProgressError when another sync runs.
+ */
+export async function startSync(opts: Omit<SyncOptions, "dryRun"> = {}): Promise<{ runId: number; done: Promise<SyncResult> }> {
+  const requestedMode: SyncMode = opts.mode ?? "incremental";
+  const ctx: FetchContext = { stats: emptyRequestStats(), guard: createRetryGuard() };
+  // Resolved before taking the lock so a misconfigured source fails fast
+  const source = opts.source ?? createTaskSource(ctx.stats, ctx.guard);
+  const lock = await acquireSyncLock();
+  // Captured before any fetch so changes made in Asana while we run are picked
+  // up again by the next incremental sync.
+  const startedAt = new Date();
+  let runId: number;
+  try {
+    const run = await startSyncRun({ trigger: opts.trigger ?? "api", triggeredBy: opts.triggeredBy, mode: requestedMode, startedAt });
+    await lock.attachRun(run.id);
+    runId = run.id;
+  } catch (e) {
+    await lock.release();
+    throw e;
   }
+  console.log(`[asana] starting ${requestedMode} sync run ${runId} from source ${source.name}`);
+
+  const parseFailures: ParseFailure[] = [];
+  ctx.lock = lock;
+  trackRun(ctx, runId);
 
+  const done = (async () => {
+    try {
+      const result = await runSync(requestedMode, startedAt, parseFailures, source, ctx);
+      await completeSyncRun(runId, { mode: result.mode, counts: { ...result.changes, totals: result.totals }, parseFailures, requestStats: result.requests });
+      return { runId, ...result, weekParseFailures: parseFailures.length };
+    } catch (e) {
+      ctx.stats.retries = ctx.guard.retries;
+      const status = failedRunStatus(e);
+      console.log(`[asana] sync run ${runId} ${status}: ${e instanceof Error ? e.message : String(e)}`);
+      await failSyncRun(runId, e, { status, requestStats: ctx.stats });
+      throw e;
+    } finally {
+      await lock.release();
+      // Webhook changes that arrived while the run held the lock were queued
+      applyQueuedTaskChanges().catch((e) => console.log(`[asana] could not apply queued webhook changes: ${e instanceof Error ? e.message : String(e)}`));
+    }
+  })();
+  return { runId, done };
+}
+
+async function runSync(requestedMode: SyncMode, startedAt: Date, parseFailures: ParseFailure[], source: TaskSource, ctx: FetchContext): Promise<Omit<SyncResult, "runId" | "weekParseFailures">> {
+  const projects = await getSyncProjects();
+  if (projects.length === 0) throw new Error("no projects to sync: add one in /admin/projects or set ASANA_PROJECT_ID");
+
+  // Team and workspace users matched to mas_user become proposals for an
+  // admin to review; `assignees` is not changed here
+  if (ASANA_TEAM_ID || ASANA_WORKSPACE_ID) {
+    await refreshAssigneeProposals(source, { teamGid: ASANA_TEAM_ID, workspaceGid: ASANA_WORKSPACE_ID });
+  }
+
+  // Incremental mode needs a cursor from a previous successful run. Without one
+  // there is nothing to diff against, so fall back to a full reload.
+  let mode = requestedMode;
+  let since: Date | null = null;
+  if (mode === "incremental") {
+    const cursor = await prisma.sync_metadata.findUnique({ where: { key: SYNC_CURSOR_KEY } });
+    since = cursor?.updated_at ?? null;
+    if (!since) {
+      console.log('[asana] no previous sync cursor found, falling back to full sync');
+      mode = "full";
+    }
+  }
+
+  // 1) Sections of every project, with the project's section mapping applied
+  await ctx.checkpoint?.("sections");
+  const scopes = await fetchProjectScopes(source, projects, ctx.onProgress);
+
+  const result = mode === "incremental" && since
+    ? await runIncrementalSync(source, scopes, since, parseFailures, ctx)
+    : await runFullSync(source, scopes, parseFailures, ctx);
+
+  // The cursor must not move past a run that another sync took over
+  await ctx.lock?.verify();
+  await writeSyncMetadata(parseFailures, startedAt);
+  // Weeks that ended since the last sync are frozen with the data just synced
+  await snapshotClosedWeeks();
+
+  const totals = emptyCounts();
+  for (const c of Object.values(result.changes)) {
+    totals.inserted += c.inserted;
+    totals.updated += c.updated;
+    totals.deleted += c.deleted;
+  }
+  console.log(`[asana] ${mode} sync finished: inserted=${totals.inserted} updated=${totals.updated} deleted=${totals.deleted}`);
+  if (ctx.stats.batch) console.log(`[asana] batch API saved ${ctx.stats.callsSaved} HTTP calls (${ctx.stats.batchActions} lookups in ${ctx.stats.batchRequests} requests)`);
+  ctx.stats.retries = ctx.guard.retries;
+  return { mode, projects: projects.length, ...result, totals, requests: ctx.stats };
+}
+
+type ModeResult = Omit<SyncResult, "runId" | "mode" | "projects" | "totals" | "requests" | "weekParseFailures">;
+
+// Fetch what a full reload would write and diff it against the live tables.
+// Assignee mapping proposals are previewed instead of refreshed.
+async function runDryRun(source: TaskSource, ctx: FetchContext): Promise<DryRunResult> {
+  const projects = await getSyncProjects();
+  if (projects.length === 0) throw new Error("no projects to sync: add one in /admin/projects or set ASANA_PROJECT_ID");
+  console.log(`[asana] starting dry run from source ${source.name}`);
+
+  const candidates = ASANA_TEAM_ID || ASANA_WORKSPACE_ID
+    ? await previewAssigneeProposals(source, { teamGid: ASANA_TEAM_ID, workspaceGid: ASANA_WORKSPACE_ID })
+    : [];
+  await ctx.checkpoint?.("sections");
+  const scopes = await fetchProjectScopes(source, projects, ctx.onProgress);
+  const parseFailures: ParseFailure[] = [];
+  const fetched = await fetchFullReload(source, scopes, parseFailures, ctx);
+  await ctx.checkpoint?.("diff");
+  const diff = await diffAgainstLive(fetched.rows, candidates, parseFailures);
+
+  console.log(`[asana] dry run finished: tasks +${diff.tasks.added.length} -${diff.tasks.removed.length} ~${diff.tasks.changed.length}, subtasks +${diff.subtasks.added.length} -${diff.subtasks.removed.length} ~${diff.subtasks.changed.length}`);
+  ctx.stats.retries = ctx.guard.retries;
+  return {
+    dryRun: true,
+    projects: projects.length,
+    sections: fetched.rows.sections.length,
+    tasks: fetched.rows.tasks.length,
+    subtasks: fetched.rows.subtasks.length,
+    diff,
+    requests: ctx.stats,
+  };
+}
+
+// One project to sync: its mapped sections and the sections whose tasks are skipped.
+type ProjectScope = { project: SyncProject; sections: SectionRow[]; excluded: Set<string> };
+
+async function fetchProjectScopes(source: TaskSource, projects: SyncProject[], onProgress?: ProgressListener): Promise<ProjectScope[]> {
+  const scopes: ProjectScope[] = [];
+  for (const [i, project] of projects.entries()) {
+    console.log(`[asana] fetching sections for project ${project.gid}`);
+    const fetched = await source.listSections(project.gid);
+    const sections: SectionRow[] = [];
+    const excluded = new Set<string>();
+    for (const sec of fetched) {
+      const mapping = project.sections.get(sec.gid);
+      if (mapping?.excluded) {
+        excluded.add(sec.gid);
+        continue;
+      }
+      sections.push({ gid: sec.gid, name: sec.name, project_gid: project.gid, deptid: mapping?.deptid ?? null });
+    }
+    console.log(`[asana] fetched ${fetched.length} sections (${excluded.size} excluded) for project ${project.gid}`);
+    scopes.push({ project, sections, excluded });
+    onProgress?.(stageProgress("sections", i + 1, projects.length));
+  }
+  return scopes;
+}
+
+// Section of the task within `projectGid`; a multi-homed task has one membership per project.
+const taskSectionGid = (t: AsanaTask, projectGid: string) =>
+  t.memberships?.find((m) => m.project?.gid === projectGid)?.section?.gid ?? t.memberships?.[0]?.section?.gid ?? null;
+
+// Drop tasks that live in an excluded section and tasks already claimed by an
+// earlier project (a task can be multi-homed; the first project wins).
+function tasksInScope(tasks: AsanaTask[], scope: ProjectScope, claimed: Set<string>): AsanaTask[] {
+  return tasks.filter((t) => {
+    const section = taskSectionGid(t, scope.project.gid);
+    if (section && scope.excluded.has(section)) return false;
+    if (claimed.has(t.gid)) return false;
+    claimed.add(t.gid);
+    return true;
+  });
+}
+
+// Full reload: everything fetched from Asana is written to the staging tables,
+// validated, and swapped into the live tables in one transaction. Any failure
+// before the swap leaves the previous data live.
+async function runFullSync(source: TaskSource, scopes: ProjectScope[], parseFailures: ParseFailure[], ctx: FetchContext): Promise<ModeResult> {
   // Table-by-table sync approach:
-  // 1) Fetch all sections and bulk insert
-  // 2) Fetch all tasks for the project (project tasks endpoint) and bulk insert
-  // 3) Fetch all subtasks for all tasks, build follower links, and bulk insert subtasks and followers
-
-  // 1) Sections
-  console.log('[asana] fetching sections');
-  const sections: AsanaSection[] = await paginate<AsanaSection>(client, `/projects/${ASANA_PROJECT_ID}/sections`);
-  console.log(`[asana] fetched ${sections.length} sections`);
-  // NOTE: do not insert sections yet; wait until after validation and destructive delete
-
-  // 2) Tasks for the project. Use the project tasks endpoint to avoid per-section fetching.
-  // Include minimal fields we need.
-  console.log('[asana] fetching tasks for project');
-  const tasks: AsanaTask[] = await paginate<AsanaTask>(client, `/projects/${ASANA_PROJECT_ID}/tasks`, { params: { opt_fields: "name,due_on,completed,created_at,memberships.section" } });
-  console.log(`[asana] fetched ${tasks.length} tasks`);
-
-  // Prepare tasks for bulk insert, map section membership if present
-  const parseFailures: { gid: string; name?: string }[] = [];
-
-  const taskRows = tasks.map((t) => {
-    // memberships can include section info; try to find the section gid
-    const memberships = (t as unknown as { memberships?: { section?: { gid?: string } }[] }).memberships;
-    const section_gid = memberships && memberships.length ? memberships[0].section?.gid ?? null : null;
-    // Attempt to parse week start date from the task name if present.
-    // Common formats: "Week of 26 May 2025", "Week of 26-30 May 2025", "Week of 30 June-4 July 2025"
-    function parseWeekStartDateFromName(name?: string): Date | null {
-      if (!name) return null;
-      const lower = name.toLowerCase();
-      // require the word "week" to avoid false positives
-      if (!/week/.test(lower)) return null;
-
-      // find a 4-digit year
-      const yearMatch = lower.match(/(20\d{2}|19\d{2})/);
-      const year = yearMatch ? parseInt(yearMatch[1], 10) : new Date().getFullYear();
-
-      // Take the substring after "week" and before the year (if present)
-      const afterWeek = lower.split(/week(?: of)?/i)[1] ?? lower;
-      const beforeYear = afterWeek.replace(/\b(20\d{2}|19\d{2})\b/, '').trim();
-
-      // Normalize separators and tokens
-      const part = beforeYear.replace(/–|—/g, '-');
-      // tokens split by dash; first token typically contains the start day and maybe month
-      const tokens = part.split('-').map(s => s.trim()).filter(Boolean);
-      const first = tokens[0] ?? part;
-
-      // Look for "DD Month" or just "DD"
-      const dm = first.match(/(\d{1,2})\s*([a-zA-Z]+)/);
-      let day: number | null = null;
-      let month: number | null = null;
-      const MONTHS: Record<string, number> = {
-        jan: 0, january: 0,
-        feb: 1, february: 1,
-        mar: 2, march: 2,
-        apr: 3, april: 3,
-        may: 4,
-        jun: 5, june: 5,
-        jul: 6, july: 6,
-        aug: 7, august: 7,
-        sep: 8, sept: 8, september: 8,
-        oct: 9, october: 9,
-        nov: 10, november: 10,
-        dec: 11, december: 11,
-      };
-
-      if (dm) {
-        day = parseInt(dm[1], 10);
-        month = MONTHS[dm[2].toLowerCase()] ?? null;
-      } else {
-        const dOnly = first.match(/(\d{1,2})/);
-        if (dOnly) day = parseInt(dOnly[1], 10);
-        // try to find month in the whole part
-        const mMatch = part.match(/(jan(uary)?|feb(ruary)?|mar(ch)?|apr(il)?|may|jun(e)?|jul(y)?|aug(ust)?|sep(t(ember)?)?|oct(ober)?|nov(ember)?|dec(ember)?)/i);
-        if (mMatch) month = MONTHS[mMatch[0].toLowerCase()] ?? null;
+  // 1) Fetch all sections of every project
+  // 2) Fetch all tasks for each project (project tasks endpoint)
+  // 3) Fetch all subtasks for all tasks and build follower links
+  // 4) Stage, validate and swap
+  const fetched = await fetchFullReload(source, scopes, parseFailures, ctx);
+  const { sections, tasks: taskRows, subtasks: subtaskRows } = fetched.rows;
+
+  // Comments and activity of every subtask
+  if (ASANA_SYNC_STORIES) await ctx.checkpoint?.("stories");
+  const storyRows = ASANA_SYNC_STORIES ? buildStoryRows(await source.listStories(subtaskRows.map((r) => r.gid), ctx.onProgress)) : [];
+
+  // Tags, external users and custom fields the staged rows refer to
+  await ctx.checkpoint?.("staging");
+  await recordTags(fetched.tags);
+  await recordExternalUsers(fetched.externalUsers);
+  await recordCustomFieldDefinitions(fetched.customFieldDefinitions);
+
+  // 4) Stage, validate and swap
+  const staged = { ...fetched.rows, stories: storyRows };
+  console.log('[asana] writing fetched data to staging tables');
+  await stageRows(staged, ctx.onProgress);
+  const counts = await validateStaging(staged);
+  await ctx.lock?.verify();
+  console.log('[asana] staged data validated, swapping into live tables');
+  const replaced = await swapStagingIntoLive();
+  await clearStaging();
+  await recordWeekParseFailures(taskRows, new Set(parseFailures.map((p) => p.gid)));
+  await pruneExternalUsers();
+
+  return {
+    sections: sections.length,
+    tasks: taskRows.length,
+    subtasks: subtaskRows.length,
+    changes: {
+      sections: { inserted: counts.sections, updated: 0, deleted: replaced.sections },
+      tasks: { inserted: counts.tasks, updated: 0, deleted: replaced.tasks },
+      subtasks: { inserted: counts.subtasks, updated: 0, deleted: replaced.subtasks },
+      followers: { inserted: counts.followers, updated: 0, deleted: replaced.followers },
+      customFields: { inserted: counts.customFields, updated: 0, deleted: replaced.customFields },
+      stories: { inserted: counts.stories, updated: 0, deleted: replaced.stories },
+      statusEvents: { inserted: replaced.statusEventsInserted, updated: 0, deleted: replaced.statusEvents },
+      taskTags: { inserted: counts.taskTags, updated: 0, deleted: replaced.taskTags },
+      taskSections: { inserted: counts.taskSections, updated: 0, deleted: replaced.taskSections },
+      dependencies: { inserted: counts.dependencies, updated: 0, deleted: replaced.dependencies },
+      externalFollowers: { inserted: counts.externalFollowers, updated: 0, deleted: replaced.externalFollowers },
+    },
+  };
+}
+
+/**
+ * Steps 2 and 3 of a full reload: every task and subtask of the synced
+ * projects, built into the rows the staging tables take (stories apart, they
+ * are fetched separately). Nothing is written, so a dry run uses it as well.
+ */
+async function fetchFullReload(source: TaskSource, scopes: ProjectScope[], parseFailures: ParseFailure[], ctx: FetchContext) {
+  // 2) Tasks for each project
+  await ctx.checkpoint?.("tasks");
+  const claimed = new Set<string>();
+  const taskRows: TaskRow[] = [];
+  const scopedTasks: AsanaTask[] = [];
+  const overrides = await loadWeekOverrides();
+  const existingAssignees = await loadAssigneeGids();
+  for (const [i, scope] of scopes.entries()) {
+    console.log(`[asana] fetching tasks for project ${scope.project.gid}`);
+    const fetched = await source.listTasks(scope.project.gid);
+    const tasks = tasksInScope(fetched, scope, claimed);
+    console.log(`[asana] fetched ${fetched.length} tasks, ${tasks.length} in scope`);
+    taskRows.push(...buildTaskRows(tasks, scope.project.gid, existingAssignees, parseFailures, overrides));
+    scopedTasks.push(...tasks);
+    ctx.onProgress?.(stageProgress("tasks", i + 1, scopes.length));
+  }
+
+  // 3) Subtasks and followers
+  await ctx.checkpoint?.("subtasks");
+  const allSubtasks = await fetchSubtaskTree(source, taskRows.map((t) => t.gid), ASANA_SUBTASK_MAX_DEPTH, ctx.onProgress);
+  const { subtaskRows, followerRows, externalFollowerRows, externalUsers } = buildSubtaskRows(allSubtasks, existingAssignees);
+  const subtasks = allSubtasks.map(({ sub }) => sub);
+
+  // Dependencies between synced subtasks; links to work outside the sync are dropped
+  const dependencyRows = linksBetween(buildDependencyRows(subtasks), new Set(subtaskRows.map((r) => r.gid)));
+
+  const rows: Omit<StagedRows, "stories"> = {
+    sections: scopes.flatMap((s) => s.sections),
+    tasks: taskRows,
+    subtasks: subtaskRows,
+    followers: followerRows,
+    // Custom field values of tasks and subtasks
+    customFields: [...buildCustomFieldRows(scopedTasks), ...buildCustomFieldRows(subtasks)],
+    // Tags and every section membership of the tasks
+    taskTags: buildTaskTagRows(scopedTasks),
+    taskSections: buildTaskSectionRows(scopedTasks),
+    dependencies: dependencyRows,
+    externalFollowers: externalFollowerRows,
+  };
+  return {
+    rows,
+    tags: collectTags(scopedTasks),
+    externalUsers,
+    customFieldDefinitions: collectCustomFieldDefinitions([...scopedTasks, ...subtasks]),
+  };
+}
+
+// Non-destructive sync: upsert tasks and subtasks modified since `since` and
+// remove the ones that disappeared from Asana or from the synced projects.
+async function runIncrementalSync(source: TaskSource, scopes: ProjectScope[], since: Date, parseFailures: ParseFailure[], ctx: FetchContext): Promise<ModeResult> {
+  const changes = { sections: emptyCounts(), tasks: emptyCounts(), subtasks: emptyCounts(), followers: emptyCounts(), customFields: emptyCounts(), stories: emptyCounts(), statusEvents: emptyCounts(), taskTags: emptyCounts(), taskSections: emptyCounts(), dependencies: emptyCounts(), externalFollowers: emptyCounts() };
+
+  // The full task list is cheap (one paginated call per project) and is the
+  // only way to notice tasks that were deleted or moved out of a project.
+  const liveTaskGids = new Set<string>();
+  const rescanGids = new Set<string>();
+  const taskRows: TaskRow[] = [];
+  const changedTasks: AsanaTask[] = [];
+  const claimed = new Set<string>();
+  const overrides = await loadWeekOverrides();
+  const existingAssignees = await loadAssigneeGids();
+  await ctx.checkpoint?.("tasks");
+  for (const [i, scope] of scopes.entries()) {
+    const projectGid = scope.project.gid;
+    console.log(`[asana] fetching live task list for project ${projectGid}`);
+    const fetchedLive = await source.listTasks(projectGid);
+    const liveTasks = tasksInScope(fetchedLive, scope, claimed);
+    const inScope = new Set(liveTasks.map((t) => t.gid));
+    for (const t of liveTasks) {
+      liveTaskGids.add(t.gid);
+      // Subtask edits do not touch the parent's modified_at, so every parent
+      // that is still open is rescanned.
+      if (!t.completed) rescanGids.add(t.gid);
+    }
+
+    console.log(`[asana] fetching tasks modified since ${since.toISOString()} in project ${projectGid}`);
+    const fetchedChanged = await source.listModifiedTasks(projectGid, since);
+    const changed = fetchedChanged.filter((t) => inScope.has(t.gid));
+    console.log(`[asana] ${changed.length} of ${liveTasks.length} tasks changed`);
+    for (const t of changed) rescanGids.add(t.gid);
+    taskRows.push(...buildTaskRows(changed, projectGid, existingAssignees, parseFailures, overrides));
+    changedTasks.push(...changed);
+    ctx.onProgress?.(stageProgress("tasks", i + 1, scopes.length));
+  }
+
+  await ctx.checkpoint?.("subtasks");
+  const fetched = await fetchSubtaskTree(source, Array.from(rescanGids), ASANA_SUBTASK_MAX_DEPTH, ctx.onProgress);
+  // Past this point rows are written as they are processed, so the run is no longer cancelled
+  await ctx.checkpoint?.("writing");
+
+  const [existingSections, existingTasks, existingSubtasks] = await Promise.all([
+    prisma.sections.findMany({ select: { gid: true, name: true, project_gid: true, deptid: true } }),
+    prisma.tasks.findMany({ select: { gid: true } }),
+    prisma.subtasks.findMany({ where: { parent_task_gid: { in: Array.from(rescanGids) } }, select: { gid: true } }),
+  ]);
+  const existingTaskGids = new Set(existingTasks.map((t) => t.gid));
+  const existingSubtaskGids = new Set(existingSubtasks.map((s) => s.gid));
+
+  // Only subtasks that are new or were modified after the cursor are written.
+  const changedSubtasks = fetched.filter(({ sub }) => !existingSubtaskGids.has(sub.gid) || !sub.modified_at || new Date(sub.modified_at) >= since);
+  const { subtaskRows, followerRows, externalFollowerRows, externalUsers } = buildSubtaskRows(changedSubtasks, existingAssignees);
+
+  // Sections: insert new ones and keep names and mappings current. Removed
+  // sections are dropped at the end, once no task references them any more.
+  const sections = scopes.flatMap((s) => s.sections);
+  const storedSections = new Map(existingSections.map((s) => [s.gid, s]));
+  for (const sec of sections) {
+    ctx.lock?.assertHeld();
+    const stored = storedSections.get(sec.gid);
+    if (!stored) {
+      await prisma.sections.create({ data: sec });
+      changes.sections.inserted += 1;
+    } else if (stored.name !== sec.name || stored.project_gid !== sec.project_gid || stored.deptid !== sec.deptid) {
+      const { gid, ...data } = sec;
+      await prisma.sections.update({ where: { gid }, data });
+      changes.sections.updated += 1;
+    }
+  }
+
+  // Remove tasks that no longer exist in any synced project, together with their subtasks and followers
+  const removedTaskGids = existingTasks.map((t) => t.gid).filter((gid) => !liveTaskGids.has(gid));
+  if (removedTaskGids.length > 0) {
+    await ctx.lock?.verify();
+    console.log(`[asana] removing ${removedTaskGids.length} tasks no longer in a synced project`);
+    const removedUnder = { parent_task_gid: { in: removedTaskGids } };
+    const [dependencies, externalFollowers, statusEvents, stories, followers, subtasks, taskTags, taskSections, tasks] = await prisma.$transaction([
+      prisma.subtask_dependencies.deleteMany({ where: { OR: [{ subtasks: removedUnder }, { blocker: removedUnder }] } }),
+      prisma.task_external_followers.deleteMany({ where: { subtasks: removedUnder } }),
+      prisma.subtask_status_events.deleteMany({ where: { subtasks: { parent_task_gid: { in: removedTaskGids } } } }),
+      prisma.task_stories.deleteMany({ where: { subtasks: { parent_task_gid: { in: removedTaskGids } } } }),
+      prisma.task_followers.deleteMany({ where: { subtasks: { parent_task_gid: { in: removedTaskGids } } } }),
+      prisma.subtasks.deleteMany({ where: { parent_task_gid: { in: removedTaskGids } } }),
+      prisma.task_tags.deleteMany({ where: { task_gid: { in: removedTaskGids } } }),
+      prisma.task_sections.deleteMany({ where: { task_gid: { in: removedTaskGids } } }),
+      prisma.tasks.deleteMany({ where: { gid: { in: removedTaskGids } } }),
+    ]);
+    changes.dependencies.deleted += dependencies.count;
+    changes.externalFollowers.deleted += externalFollowers.count;
+    changes.taskTags.deleted += taskTags.count;
+    changes.taskSections.deleted += taskSections.count;
+    changes.statusEvents.deleted += statusEvents.count;
+    changes.stories.deleted += stories.count;
+    changes.followers.deleted += followers.count;
+    changes.subtasks.deleted += subtasks.count;
+    changes.tasks.deleted += tasks.count;
+  }
+
+  for (const row of taskRows) {
+    ctx.lock?.assertHeld();
+    const { gid, ...data } = row;
+    await prisma.tasks.upsert({ where: { gid }, update: data, create: row });
+    if (existingTaskGids.has(gid)) changes.tasks.updated += 1;
+    else changes.tasks.inserted += 1;
+  }
+  await recordWeekParseFailures(taskRows, new Set(parseFailures.map((p) => p.gid)));
+
+  await recordTags(collectTags(changedTasks));
+  const membershipChanges = await replaceTaskMemberships(changedTasks.map((t) => t.gid), buildTaskTagRows(changedTasks), buildTaskSectionRows(changedTasks));
+  changes.taskTags.inserted += membershipChanges.tags.inserted;
+  changes.taskTags.deleted += membershipChanges.tags.deleted;
+  changes.taskSections.inserted += membershipChanges.sections.inserted;
+  changes.taskSections.deleted += membershipChanges.sections.deleted;
+
+  // Remove subtasks that disappeared from a rescanned parent
+  const fetchedSubtaskGids = new Set(fetched.map(({ sub }) => sub.gid));
+  const removedSubtaskGids = existingSubtasks.map((s) => s.gid).filter((gid) => !fetchedSubtaskGids.has(gid));
+  if (removedSubtaskGids.length > 0) {
+    await ctx.lock?.verify();
+    console.log(`[asana] removing ${removedSubtaskGids.length} subtasks no longer in Asana`);
+    const [dependencies, externalFollowers, statusEvents, stories, followers, subtasks] = await prisma.$transaction([
+      prisma.subtask_dependencies.deleteMany({ where: { OR: [{ subtask_gid: { in: removedSubtaskGids } }, { blocker_gid: { in: removedSubtaskGids } }] } }),
+      prisma.task_external_followers.deleteMany({ where: { task_gid: { in: removedSubtaskGids } } }),
+      prisma.subtask_status_events.deleteMany({ where: { subtask_gid: { in: removedSubtaskGids } } }),
+      prisma.task_stories.deleteMany({ where: { task_gid: { in: removedSubtaskGids } } }),
+      prisma.task_followers.deleteMany({ where: { task_gid: { in: removedSubtaskGids } } }),
+      prisma.subtasks.deleteMany({ where: { gid: { in: removedSubtaskGids } } }),
+    ]);
+    changes.dependencies.deleted += dependencies.count;
+    changes.externalFollowers.deleted += externalFollowers.count;
+    changes.statusEvents.deleted += statusEvents.count;
+    changes.stories.deleted += stories.count;
+    changes.followers.deleted += followers.count;
+    changes.subtasks.deleted += subtasks.count;
+  }
+
+  await recordExternalUsers(externalUsers);
+  for (const row of subtaskRows) {
+    ctx.lock?.assertHeld();
+    const { gid, ...data } = row;
+    await prisma.subtasks.upsert({ where: { gid }, update: data, create: row });
+    if (existingSubtaskGids.has(gid)) changes.subtasks.updated += 1;
+    else changes.subtasks.inserted += 1;
+  }
+
+  ctx.lock?.assertHeld();
+  const followerChanges = await replaceFollowerLinks(subtaskRows.map((r) => r.gid), followerRows);
+  changes.followers.inserted += followerChanges.inserted;
+  changes.followers.deleted += followerChanges.deleted;
+  const externalChanges = await replaceExternalFollowers(subtaskRows.map((r) => r.gid), externalFollowerRows);
+  changes.externalFollowers.inserted += externalChanges.inserted;
+  changes.externalFollowers.deleted += externalChanges.deleted;
+
+  const dependencyChanges = await replaceSubtaskDependencies(subtaskRows.map((r) => r.gid), buildDependencyRows(changedSubtasks.map(({ sub }) => sub)));
+  changes.dependencies.inserted += dependencyChanges.inserted;
+  changes.dependencies.deleted += dependencyChanges.deleted;
+
+  // Custom field values of the rewritten tasks and subtasks, then values left behind by removed ones
+  ctx.lock?.assertHeld();
+  const changedResources = [...changedTasks, ...changedSubtasks.map(({ sub }) => sub)];
+  await recordCustomFieldDefinitions(collectCustomFieldDefinitions(changedResources));
+  const fieldChanges = await replaceCustomFieldValues(changedResources.map((r) => r.gid), buildCustomFieldRows(changedResources));
+  changes.customFields.inserted += fieldChanges.inserted;
+  changes.customFields.deleted += fieldChanges.deleted + (await pruneCustomFieldValues());
+
+  // Comments do not bump a subtask's modified_at, so the stories of every open
+  // subtask of a rescanned parent are read again along with the changed ones.
+  const storyGids = ASANA_SYNC_STORIES
+    ? Array.from(new Set([...subtaskRows.map((r) => r.gid), ...fetched.filter(({ sub }) => !sub.completed).map(({ sub }) => sub.gid)]))
+    : [];
+  if (storyGids.length > 0) {
+    const storyRows = buildStoryRows(await source.listStories(storyGids, ctx.onProgress));
+    ctx.lock?.assertHeld();
+    const storyChanges = await replaceTaskStories(storyGids, storyRows);
+    changes.stories.inserted += storyChanges.inserted;
+    changes.stories.deleted += storyChanges.deleted;
+  }
+
+  // Status history of every subtask whose row or stories were rewritten
+  ctx.lock?.assertHeld();
+  const historyChanges = await rebuildStatusEvents(prisma, Array.from(new Set([...subtaskRows.map((r) => r.gid), ...storyGids])));
+  changes.statusEvents.inserted += historyChanges.inserted;
+  changes.statusEvents.deleted += historyChanges.deleted;
+
+  const liveSectionGids = new Set(sections.map((s) => s.gid));
+  const removedSectionGids = existingSections.map((s) => s.gid).filter((gid) => !liveSectionGids.has(gid));
+  if (removedSectionGids.length > 0) {
+    const removed = await prisma.sections.deleteMany({ where: { gid: { in: removedSectionGids }, tasks: { none: {} } } });
+    changes.sections.deleted += removed.count;
+  }
+  await pruneExternalUsers();
+
+  return { sections: sections.length, tasks: liveTaskGids.size, subtasks: subtaskRows.length, changes };
+}
+
+// Followers of changed subtasks are replaced by diffing against the stored links
+async function replaceFollowerLinks(subtaskGids: string[], followerRows: FollowerRow[]) {
+  if (subtaskGids.length === 0) return { inserted: 0, deleted: 0 };
+  const stored = await prisma.task_followers.findMany({ where: { task_gid: { in: subtaskGids } } });
+  const key = (r: FollowerRow) => `${r.task_gid}:${r.follower_gid}`;
+  const wanted = new Set(followerRows.map(key));
+  const have = new Set(stored.map(key));
+  const stale = stored.filter((r) => !wanted.has(key(r)));
+  const added = followerRows.filter((r) => !have.has(key(r)));
+  for (const r of stale) {
+    await prisma.task_followers.delete({ where: { follower_gid_task_gid: { follower_gid: r.follower_gid, task_gid: r.task_gid } } });
+  }
+  if (added.length > 0) await insertInChunks("followers", added, prisma.task_followers.createMany.bind(prisma.task_followers));
+  return { inserted: added.length, deleted: stale.length };
+}
+
+export type TaskChangeResult = { tasks: ChangeCounts; subtasks: ChangeCounts; followers: ChangeCounts; customFields: ChangeCounts; stories: ChangeCounts; statusEvents: ChangeCounts; taskTags: ChangeCounts; taskSections: ChangeCounts; dependencies: ChangeCounts; externalFollowers: ChangeCounts; ignored: number };
+
+/**
+ * Apply individual task changes outside of a full sync, e.g. from webhook
+ * events. The gids are queued in `webhook_task_changes` and written under the
+ * sync lock. While a sync holds the lock they wait, and the sync applies them
+ * once it releases it; null is returned then.
+ */
+export async function applyTaskChanges(params: { changed: string[]; deleted: string[] }): Promise<TaskChangeResult | null> {
+  const queued_at = new Date();
+  const rows = [...params.changed.map((gid) => ({ gid, deleted: false })), ...params.deleted.map((gid) => ({ gid, deleted: true }))];
+  for (const row of rows) {
+    await prisma.webhook_task_changes.upsert({ where: { gid: row.gid }, update: { deleted: row.deleted, queued_at }, create: { ...row, queued_at } });
+  }
+  return applyQueuedTaskChanges();
+}
+
+/**
+ * Write every queued task change while holding the sync lock. Returns null
+ * when another sync holds it; the holder calls this again on release. The
+ * queue is checked once more after each release, so a change queued while
+ * the lock was held is never left behind.
+ */
+export async function applyQueuedTaskChanges(): Promise<TaskChangeResult | null> {
+  let result: TaskChangeResult | null = null;
+  // One source for every pass, so its retries count against one budget
+  let source: TaskSource | undefined;
+  for (;;) {
+    let lock: SyncLockHandle;
+    try {
+      lock = await acquireSyncLock();
+    } catch (e) {
+      if (e instanceof SyncInProgressError) return result;
+      throw e;
+    }
+    let queued: { gid: string; deleted: boolean; queued_at: Date }[];
+    try {
+      queued = await prisma.webhook_task_changes.findMany();
+      if (queued.length > 0) {
+        result ??= { tasks: emptyCounts(), subtasks: emptyCounts(), followers: emptyCounts(), customFields: emptyCounts(), stories: emptyCounts(), statusEvents: emptyCounts(), taskTags: emptyCounts(), taskSections: emptyCounts(), dependencies: emptyCounts(), externalFollowers: emptyCounts(), ignored: 0 };
+        source ??= createTaskSource(emptyRequestStats(), createRetryGuard());
+        await writeTaskChanges({ changed: queued.filter((q) => !q.deleted).map((q) => q.gid), deleted: queued.filter((q) => q.deleted).map((q) => q.gid) }, source, result, lock);
+        // A gid queued again while it was written keeps its newer row for the next pass
+        await prisma.webhook_task_changes.deleteMany({ where: { OR: queued.map(({ gid, queued_at }) => ({ gid, queued_at })) } });
       }
+    } finally {
+      await lock.release();
+    }
+    if (queued.length === 0 && (await prisma.webhook_task_changes.count()) === 0) return result;
+  }
+}
+
+/**
+ * Each gid in `changed` is re-fetched from `source` and upserted as a project
+ * task or as a subtask of a known task; gids in `deleted` (and changed gids
+ * that Asana no longer returns) are removed with their subtasks and followers.
+ * A changed project task has its subtasks listed again, so subtasks added to
+ * or removed from it are written too. Tasks that belong to neither are counted
+ * as ignored. Counts are added to `result`.
+ */
+async function writeTaskChanges(params: { changed: string[]; deleted: string[] }, source: TaskSource, result: TaskChangeResult, lock: Pick<SyncLockHandle, "assertHeld" | "verify">) {
+  const updatedResources: AsanaSubtask[] = [];
+  const toDelete = new Set(params.deleted);
+  const parseFailures: ParseFailure[] = [];
+  const existingAssignees = await loadAssigneeGids();
+  const projects = await getSyncProjects();
+  const overrides = await loadWeekOverrides();
+  const writtenTasks: TaskRow[] = [];
+  const writtenDetails: AsanaTaskDetail[] = [];
+  const writtenSubtaskGids = new Set<string>();
+
+  for (const gid of Array.from(new Set(params.changed))) {
+    if (toDelete.has(gid)) continue;
+    lock.assertHeld();
+    const detail = await source.getTask(gid);
+    if (!detail) {
+      toDelete.add(gid);
+      continue;
+    }
+
+    const parentGid = detail.parent?.gid ?? null;
+    if (parentGid) {
+      // A subtask of a stored task, or of a stored subtask within ASANA_SUBTASK_MAX_DEPTH; ignore the rest
+      const parentTask = await prisma.tasks.findUnique({ where: { gid: parentGid }, select: { gid: true } });
+      const parentSubtask = parentTask ? null : await prisma.subtasks.findUnique({ where: { gid: parentGid }, select: { parent_task_gid: true, depth: true } });
+      const node: SubtaskNode | null = parentTask
+        ? { sub: detail, parentTaskGid: parentGid, parentSubtaskGid: null, depth: 1 }
+        : parentSubtask?.parent_task_gid && parentSubtask.depth < ASANA_SUBTASK_MAX_DEPTH
+          ? { sub: detail, parentTaskGid: parentSubtask.parent_task_gid, parentSubtaskGid: parentGid, depth: parentSubtask.depth + 1 }
+          : null;
+      if (!node) {
+        result.ignored += 1;
+        continue;
+      }
+      const { subtaskRows, followerRows, externalFollowerRows, externalUsers } = buildSubtaskRows([node], existingAssignees);
+      await recordExternalUsers(externalUsers);
+      const row = subtaskRows[0];
+      const existed = await prisma.subtasks.findUnique({ where: { gid }, select: { gid: true } });
+      const { gid: rowGid, ...data } = row;
+      await prisma.subtasks.upsert({ where: { gid: rowGid }, update: data, create: row });
+      result.subtasks[existed ? "updated" : "inserted"] += 1;
+      writtenSubtaskGids.add(gid);
+      const followerChanges = await replaceFollowerLinks([gid], followerRows);
+      result.followers.inserted += followerChanges.inserted;
+      result.followers.deleted += followerChanges.deleted;
+      const externalChanges = await replaceExternalFollowers([gid], externalFollowerRows);
+      result.externalFollowers.inserted += externalChanges.inserted;
+      result.externalFollowers.deleted += externalChanges.deleted;
+      const dependencyChanges = await replaceSubtaskDependencies([gid], buildDependencyRows([detail]));
+      result.dependencies.inserted += dependencyChanges.inserted;
+      result.dependencies.deleted += dependencyChanges.deleted;
+      if (ASANA_SYNC_STORIES) {
+        const storyChanges = await replaceTaskStories([gid], buildStoryRows(await source.listStories([gid])));
+        result.stories.inserted += storyChanges.inserted;
+        result.stories.deleted += storyChanges.deleted;
+      }
+      const historyChanges = await rebuildStatusEvents(prisma, [gid]);
+      result.statusEvents.inserted += historyChanges.inserted;
+      result.statusEvents.deleted += historyChanges.deleted;
+      updatedResources.push(detail);
+      continue;
+    }
+
+    // First synced project the task belongs to, matching the order used by a full sync
+    const taskProjects = new Set((detail.projects ?? []).map((p) => p.gid));
+    const project = projects.find((p) => taskProjects.has(p.gid));
+    const sectionGid = project ? taskSectionGid(detail, project.gid) : null;
+    if (!project || (sectionGid && project.sections.get(sectionGid)?.excluded)) {
+      // Moved out of the synced projects or into an excluded section: drop it like a deleted task
+      toDelete.add(gid);
+      continue;
+    }
 
-      if (day == null || month == null) return null;
-      // Construct date in the current (server) timezone
-      return new Date(year, month, day, 0, 0, 0);
+    const [row] = buildTaskRows([detail], project.gid, existingAssignees, parseFailures, overrides);
+    const section = detail.memberships?.find((m) => m.section?.gid === sectionGid)?.section;
+    if (row.section_gid && section?.gid) {
+      const deptid = project.sections.get(section.gid)?.deptid ?? null;
+      await prisma.sections.upsert({
+        where: { gid: section.gid },
+        update: { ...(section.name ? { name: section.name } : {}), project_gid: project.gid, deptid },
+        create: { gid: section.gid, name: section.name ?? section.gid, project_gid: project.gid, deptid },
+      });
+    }
+    const existed = await prisma.tasks.findUnique({ where: { gid }, select: { gid: true } });
+    const { gid: rowGid, ...data } = row;
+    await prisma.tasks.upsert({ where: { gid: rowGid }, update: data, create: row });
+    result.tasks[existed ? "updated" : "inserted"] += 1;
+    writtenTasks.push(row);
+    writtenDetails.push(detail);
+    updatedResources.push(detail);
+  }
+
+  // A task's record does not change when a subtask is added or removed, so
+  // the subtasks of every written task are listed again
+  if (writtenTasks.length > 0) {
+    const parentGids = writtenTasks.map((t) => t.gid);
+    const fetched = await fetchSubtaskTree(source, parentGids, ASANA_SUBTASK_MAX_DEPTH);
+    const existing = await prisma.subtasks.findMany({ where: { parent_task_gid: { in: parentGids } }, select: { gid: true } });
+    const existingGids = new Set(existing.map((s) => s.gid));
+    // Subtasks written above from their own change are current already
+    const nodes = fetched.filter(({ sub }) => !writtenSubtaskGids.has(sub.gid));
+    const { subtaskRows, followerRows, externalFollowerRows, externalUsers } = buildSubtaskRows(nodes, existingAssignees);
+    await recordExternalUsers(externalUsers);
+    for (const row of subtaskRows) {
+      lock.assertHeld();
+      const { gid: rowGid, ...data } = row;
+      await prisma.subtasks.upsert({ where: { gid: rowGid }, update: data, create: row });
+      result.subtasks[existingGids.has(rowGid) ? "updated" : "inserted"] += 1;
     }
+    const subtaskGids = subtaskRows.map((r) => r.gid);
+    const followerChanges = await replaceFollowerLinks(subtaskGids, followerRows);
+    result.followers.inserted += followerChanges.inserted;
+    result.followers.deleted += followerChanges.deleted;
+    const externalChanges = await replaceExternalFollowers(subtaskGids, externalFollowerRows);
+    result.externalFollowers.inserted += externalChanges.inserted;
+    result.externalFollowers.deleted += externalChanges.deleted;
+    const dependencyChanges = await replaceSubtaskDependencies(subtaskGids, buildDependencyRows(nodes.map(({ sub }) => sub)));
+    result.dependencies.inserted += dependencyChanges.inserted;
+    result.dependencies.deleted += dependencyChanges.deleted;
+    // As in an incremental sync, stories are read for new and open subtasks only
+    const storyGids = ASANA_SYNC_STORIES ? nodes.filter(({ sub }) => !existingGids.has(sub.gid) || !sub.completed).map(({ sub }) => sub.gid) : [];
+    if (storyGids.length > 0) {
+      const storyChanges = await replaceTaskStories(storyGids, buildStoryRows(await source.listStories(storyGids)));
+      result.stories.inserted += storyChanges.inserted;
+      result.stories.deleted += storyChanges.deleted;
+    }
+    const historyChanges = await rebuildStatusEvents(prisma, subtaskGids);
+    result.statusEvents.inserted += historyChanges.inserted;
+    result.statusEvents.deleted += historyChanges.deleted;
+    updatedResources.push(...nodes.map(({ sub }) => sub));
+
+    // Subtasks no longer listed under their task are removed with the deleted gids
+    const fetchedGids = new Set(fetched.map(({ sub }) => sub.gid));
+    for (const gid of Array.from(existingGids)) {
+      if (!fetchedGids.has(gid)) toDelete.add(gid);
+    }
+  }
 
-    const parsedWeekStart = parseWeekStartDateFromName(t.name ?? undefined);
+  if (writtenDetails.length > 0) {
+    await recordTags(collectTags(writtenDetails));
+    const membershipChanges = await replaceTaskMemberships(writtenDetails.map((t) => t.gid), buildTaskTagRows(writtenDetails), buildTaskSectionRows(writtenDetails));
+    result.taskTags.inserted += membershipChanges.tags.inserted;
+    result.taskTags.deleted += membershipChanges.tags.deleted;
+    result.taskSections.inserted += membershipChanges.sections.inserted;
+    result.taskSections.deleted += membershipChanges.sections.deleted;
+  }
+
+  if (updatedResources.length > 0) {
+    await recordCustomFieldDefinitions(collectCustomFieldDefinitions(updatedResources));
+    const fieldChanges = await replaceCustomFieldValues(updatedResources.map((r) => r.gid), buildCustomFieldRows(updatedResources));
+    result.customFields.inserted += fieldChanges.inserted;
+    result.customFields.deleted += fieldChanges.deleted;
+  }
+
+  if (toDelete.size > 0) {
+    await lock.verify();
+    const gids = Array.from(toDelete);
+    // Deleted subtasks take their nested subtasks with them
+    const subtaskGids = await subtaskGidsUnder(gids);
+    const [dependencies, externalFollowers, statusEvents, stories, followers, subtasks, taskTags, taskSections, tasks] = await prisma.$transaction([
+      prisma.subtask_dependencies.deleteMany({ where: { OR: [{ subtask_gid: { in: subtaskGids } }, { blocker_gid: { in: subtaskGids } }] } }),
+      prisma.task_external_followers.deleteMany({ where: { task_gid: { in: subtaskGids } } }),
+      prisma.subtask_status_events.deleteMany({ where: { subtask_gid: { in: subtaskGids } } }),
+      prisma.task_stories.deleteMany({ where: { task_gid: { in: subtaskGids } } }),
+      prisma.task_followers.deleteMany({ where: { task_gid: { in: subtaskGids } } }),
+      prisma.subtasks.deleteMany({ where: { gid: { in: subtaskGids } } }),
+      prisma.task_tags.deleteMany({ where: { task_gid: { in: gids } } }),
+      prisma.task_sections.deleteMany({ where: { task_gid: { in: gids } } }),
+      prisma.tasks.deleteMany({ where: { gid: { in: gids } } }),
+    ]);
+    result.dependencies.deleted += dependencies.count;
+    result.externalFollowers.deleted += externalFollowers.count;
+    result.taskTags.deleted += taskTags.count;
+    result.taskSections.deleted += taskSections.count;
+    result.statusEvents.deleted += statusEvents.count;
+    result.stories.deleted += stories.count;
+    result.followers.deleted += followers.count;
+    result.subtasks.deleted += subtasks.count;
+    result.tasks.deleted += tasks.count;
+    result.customFields.deleted += await pruneCustomFieldValues();
+    await pruneExternalUsers();
+  }
+
+  if (writtenTasks.length > 0 || toDelete.size > 0) await recordWeekParseFailures(writtenTasks, new Set(parseFailures.map((p) => p.gid)));
+  if (parseFailures.length > 0) {
+    console.log(`[asana] week start could not be parsed for ${parseFailures.length} changed tasks`);
+  }
+}
+
+// Assignee mapping proposals from the configured source, outside of a sync
+export async function refreshAssigneeMappings() {
+  if (!ASANA_TEAM_ID && !ASANA_WORKSPACE_ID) throw new Error("set ASANA_TEAM_ID or ASANA_WORKSPACE_ID to map assignees");
+  return refreshAssigneeProposals(createTaskSource(), { teamGid: ASANA_TEAM_ID, workspaceGid: ASANA_WORKSPACE_ID });
+}
+
+// Sections of a project as the configured source currently has them, in board order.
+export async function fetchProjectSections(projectGid: string): Promise<AsanaSection[]> {
+  return createTaskSource().listSections(projectGid);
+}
+
+export type WebhookFilter = { resource_type: string; action?: string; fields?: string[] };
+
+// Register a webhook for `resource`. Asana performs the X-Hook-Secret handshake
+// against `target` before this call returns.
+export async function createAsanaWebhook(resource: string, target: string, filters: WebhookFilter[]): Promise<{ gid: string }> {
+  const client = createClient();
+  const res = await withBackoff(client, () => client.post(`/webhooks`, { data: { resource, target, filters } }));
+  return { gid: res.data?.data?.gid as string };
+}
+
+export async function deleteAsanaWebhook(webhookGid: string) {
+  const client = createClient();
+  try {
+    await withBackoff(client, () => client.delete(`/webhooks/${webhookGid}`));
+  } catch (e) {
+    // Already gone on Asana's side
+    if ((e as AxiosError).response?.status !== 404) throw e;
+  }
+}
 
-    // If parsing failed, record for logging and fall back to created_at, due_on, then now
-    let finalWeekStart: Date | null = parsedWeekStart ?? null;
+// WEEK_NAME_PATTERNS picks and orders the week name patterns of lib/weekName.ts,
+// e.g. "day-month,iso-week". Default: every pattern.
+const parseTaskWeek = process.env.WEEK_NAME_PATTERNS
+  ? createWeekNameParser(selectWeekPatterns(process.env.WEEK_NAME_PATTERNS.split(",").map((p) => p.trim()).filter(Boolean)))
+  : createWeekNameParser();
+
+// Map Asana tasks to rows, resolving the week start and end dates from the
+// task name. An admin override replaces whatever the name says; unparsed names
+// are still reported so they stay on the review list. Throws if a task ends up
+// without a valid week start date so the caller can abort before touching the
+// database.
+function buildTaskRows(tasks: AsanaTask[], projectGid: string, existingAssignees: Set<string>, parseFailures: ParseFailure[], overrides: Map<string, WeekOverride> = new Map()): TaskRow[] {
+  return tasks.map((t) => {
+    // memberships can include section info; take the section within this project
+    const section_gid = taskSectionGid(t, projectGid);
+    const parsedWeek = parseTaskWeek(t.name);
+    if (!parsedWeek) parseFailures.push({ gid: t.gid, name: t.name });
+    const override = overrides.get(t.gid);
+    const week = override ?? parsedWeek;
+
+    // Without an override or a parsed name, fall back to the day of created_at, due_on, then today
+    let finalWeekStart: Date | null = week?.start ?? null;
     if (!finalWeekStart) {
-      parseFailures.push({ gid: t.gid, name: t.name });
-      if (t.created_at) finalWeekStart = new Date(t.created_at);
-      else if (t.due_on) finalWeekStart = new Date(t.due_on);
-      else finalWeekStart = new Date();
+      if (t.created_at) finalWeekStart = startOfReportDay(t.created_at);
+      else if (t.due_on) finalWeekStart = parseReportDate(t.due_on);
+      else finalWeekStart = startOfReportDay();
     }
 
     // Validate the finalWeekStart is a valid date. If invalid, throw to abort sync
@@ -207,74 +1182,174 @@ export async function syncFromAsana() {
       name: t.name ?? null,
       section_gid,
       completed: t.completed ?? null,
-      due_on: t.due_on ? new Date(t.due_on) : null,
+      due_on: parseReportDate(t.due_on),
       created_at: t.created_at ? new Date(t.created_at) : null,
-      project: ASANA_PROJECT_ID,
+      project: projectGid,
       week_startdate: finalWeekStart,
+      week_enddate: week?.end ?? null,
+      // Owners without a mas_user account are not stored, like subtask assignees
+      assignee_gid: t.assignee?.gid && existingAssignees.has(t.assignee.gid) ? t.assignee.gid : null,
     };
   });
+}
 
-  // All tasks validated at this point. Proceed with destructive delete.
-  console.log('[asana] clearing existing data (task_followers, subtasks, tasks, sections)');
-  await prisma.$transaction([
-    prisma.task_followers.deleteMany(),
-    prisma.subtasks.deleteMany(),
-    prisma.tasks.deleteMany(),
-    prisma.sections.deleteMany(),
-  ]);
+// A collection read once per task: its subtasks or its stories.
+type TaskCollection = { stage: string; path: (gid: string) => string; optFields: string };
 
-  // Insert sections now that the DB is cleared and validation passed
-  if (sections.length > 0) {
-    const data = sections.map((s) => ({ gid: s.gid, name: s.name }));
-    console.log(`[asana] inserting ${data.length} sections`);
-    await prisma.sections.createMany({ data, skipDuplicates: true });
-  }
+const SUBTASK_COLLECTION: TaskCollection = { stage: "subtasks", path: (gid) => `/tasks/${gid}/subtasks`, optFields: SUBTASK_OPT_FIELDS };
+const STORY_COLLECTION: TaskCollection = { stage: "stories", path: (gid) => `/tasks/${gid}/stories`, optFields: STORY_OPT_FIELDS };
+
+async function fetchSubtasks(client: AxiosInstance, parentGids: string[], stats: RequestStats, onProgress?: ProgressListener): Promise<SubtaskWithParent[]> {
+  const results = await fetchTaskCollections<AsanaSubtask>(client, parentGids, SUBTASK_COLLECTION, stats, onProgress);
+  const allSubtasks: SubtaskWithParent[] = [];
+  parentGids.forEach((gid, i) => {
+    for (const st of results[i]) allSubtasks.push({ sub: st, parentTaskGid: gid });
+  });
+  console.log(`[asana] total subtasks fetched: ${allSubtasks.length}`);
+  return allSubtasks;
+}
+
+async function fetchStories(client: AxiosInstance, taskGids: string[], stats: RequestStats, onProgress?: ProgressListener): Promise<StoryWithTask[]> {
+  const results = await fetchTaskCollections<AsanaStory>(client, taskGids, STORY_COLLECTION, stats, onProgress);
+  const allStories: StoryWithTask[] = [];
+  taskGids.forEach((gid, i) => {
+    for (const story of results[i]) allStories.push({ story, taskGid: gid });
+  });
+  console.log(`[asana] total stories fetched: ${allStories.length}`);
+  return allStories;
+}
+
+// Fetch one collection of every task with ASANA_SUBTASK_CONCURRENCY workers.
+// All requests go through withBackoff, so the shared rate limiter still spaces
+// them. A task whose fetch fails is retried on its own; only when it keeps
+// failing does the whole fetch fail, after the running workers have stopped.
+// With ASANA_BATCH each worker takes up to BATCH_MAX_ACTIONS tasks at a time
+// and looks them up in one /batch call; tasks whose action fails fall back
+// to the single-request path with its retries. Results come back in the order
+// of `parentGids`.
+async function fetchTaskCollections<T>(client: AxiosInstance, parentGids: string[], collection: TaskCollection, stats: RequestStats, onProgress?: ProgressListener): Promise<T[][]> {
+  const { stage } = collection;
+  // Results are kept per parent so the output order does not depend on timing
+  const results: T[][] = new Array(parentGids.length);
+  const progress: SyncProgress = { stage, done: 0, total: parentGids.length, failed: 0, retried: 0 };
+  const failures: Array<{ gid: string; error: unknown }> = [];
+  let next = 0;
+  let lastReport = 0;
 
-  if (taskRows.length > 0) {
-    // Insert in chunks to avoid large single queries
-    const chunkSize = 500;
-    for (let i = 0; i < taskRows.length; i += chunkSize) {
-      const chunk = taskRows.slice(i, i + chunkSize);
-      console.log(`[asana] inserting tasks chunk ${i}-${i + chunk.length}`);
-      await prisma.tasks.createMany({ data: chunk, skipDuplicates: true });
+  const report = (force = false) => {
+    const now = Date.now();
+    if (!force && now - lastReport < 2000) return;
+    lastReport = now;
+    console.log(`[asana] ${stage}: ${progress.done}/${progress.total} tasks fetched (retried=${progress.retried} failed=${progress.failed})`);
+    onProgress?.({ ...progress });
+  };
+
+  const fetchOne = async (gid: string): Promise<T[]> => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await paginate<T>(client, collection.path(gid), { params: { opt_fields: collection.optFields } });
+      } catch (e) {
+        // Deleted since the task list was read: it simply has nothing any more
+        if ((e as AxiosError).response?.status === 404) return [];
+        // Transient errors were already retried by withBackoff
+        if (attempt >= ASANA_SUBTASK_RETRIES || e instanceof CircuitOpenError || isTransientError(e)) throw e;
+        const delay = Math.min(2 ** attempt * 1000, 10000);
+        progress.retried += 1;
+        console.log(`[asana] ${stage} of task ${gid} failed (${e instanceof Error ? e.message : String(e)}), retrying in ${delay}ms (attempt ${attempt + 1}/${ASANA_SUBTASK_RETRIES})`);
+        await new Promise((r) => setTimeout(r, delay));
+      }
     }
-  }
+  };
 
-  // 3) Subtasks and followers: fetch subtasks for all tasks and bulk insert
-  const allSubtasks: Array<{ sub: AsanaSubtask; parentTaskGid: string }> = [];
-  for (const t of tasks) {
-    console.log(`[asana] fetching subtasks for task ${t.gid}`);
-    const subs: AsanaSubtask[] = await paginate<AsanaSubtask>(client, `/tasks/${t.gid}/subtasks`, { params: { opt_fields: "name,completed,created_at,completed_at,assignee,followers,due_on" } });
-    for (const st of subs) {
-      allSubtasks.push({ sub: st, parentTaskGid: t.gid });
+  const fetchInto = async (index: number, prefetched?: T[]) => {
+    const gid = parentGids[index];
+    try {
+      results[index] = prefetched ?? (await fetchOne(gid));
+    } catch (e) {
+      failures.push({ gid, error: e });
+      progress.failed += 1;
     }
-  }
-  console.log(`[asana] total subtasks fetched: ${allSubtasks.length}`);
+    progress.done += 1;
+    report();
+  };
 
-  // Build subtask rows and follower rows
-  type SubtaskRow = {
-    gid: string;
-      name: string | null;
-      parent_task_gid: string;
-      assignee_gid: string | null;
-      completed: boolean | null;
-      created_at: Date | null;
-      completed_at: Date | null;
-      due_on: Date | null;
+  const chunkSize = ASANA_BATCH ? BATCH_MAX_ACTIONS : 1;
+  const worker = async () => {
+    // Stop picking up work once a parent has failed for good; the run is lost anyway
+    while (next < parentGids.length && failures.length === 0) {
+      const start = next;
+      next = Math.min(next + chunkSize, parentGids.length);
+      const indexes = Array.from({ length: next - start }, (_, i) => start + i);
+      if (indexes.length === 1) {
+        await fetchInto(indexes[0]);
+        continue;
+      }
+
+      const outcomes = await paginateBatch<T>(
+        client,
+        indexes.map((i) => collection.path(parentGids[i])),
+        collection.optFields,
+        stats,
+      ).catch((e) => {
+        // The whole /batch call failed: every parent goes through the single-request path
+        console.log(`[asana] batch request failed (${e instanceof Error ? e.message : String(e)}), falling back to single requests`);
+        return null;
+      });
+      for (let k = 0; k < indexes.length; k++) {
+        const outcome = outcomes?.[k];
+        if (outcome?.ok) await fetchInto(indexes[k], outcome.data);
+        // Deleted since the task list was read: it simply has nothing any more
+        else if (outcome?.status === 404) await fetchInto(indexes[k], []);
+        else {
+          if (outcome) progress.retried += 1;
+          await fetchInto(indexes[k]);
+        }
+      }
+    }
   };
 
-  const subtaskRows: SubtaskRow[] = [];
-  const followerRows: Array<{ task_gid: string; follower_gid: string }> = [];
+  const workers = Math.min(ASANA_SUBTASK_CONCURRENCY, Math.ceil(parentGids.length / chunkSize));
+  console.log(`[asana] fetching ${stage} for ${parentGids.length} tasks with ${workers} workers${ASANA_BATCH ? " (batch API)" : ""}`);
+  report(true);
+  await Promise.all(Array.from({ length: workers }, worker));
+  report(true);
+
+  if (failures.length > 0) {
+    // An open circuit is reported as such so the run is recorded as aborted
+    const circuit = failures.find((f) => f.error instanceof CircuitOpenError);
+    if (circuit) throw circuit.error;
+    const first = failures[0];
+    throw new Error(`failed to fetch ${stage} for ${failures.length} task(s), e.g. ${first.gid}: ${first.error instanceof Error ? first.error.message : String(first.error)}`);
+  }
 
-  // Cache existing assignee gids to avoid repeated DB hits
+  return results.map((r) => r ?? []);
+}
+
+// Cache existing assignee gids to avoid repeated DB hits
+async function loadAssigneeGids(): Promise<Set<string>> {
   const existingAssignees = new Set<string>();
   const assigneesList = await prisma.assignees.findMany({ select: { assignee_gid: true } });
   for (const a of assigneesList) if (a.assignee_gid) existingAssignees.add(a.assignee_gid);
+  return existingAssignees;
+}
+
+// Build subtask rows and follower rows. Assignees and followers that are not
+// known in `assignees` go to external_asana_users (see externalUsers.ts); they
+// are returned in `externalUsers` to be recorded before the rows are written.
+function buildSubtaskRows(allSubtasks: SubtaskNode[], existingAssignees: Set<string>) {
+  const subtaskRows: SubtaskRow[] = [];
+  const followerRows: FollowerRow[] = [];
+  const externalFollowerRows: ExternalFollowerRow[] = [];
+  const externalUsers = new Map<string, AsanaUser>();
 
-  for (const { sub: st, parentTaskGid } of allSubtasks) {
+  for (const { sub: st, parentTaskGid, parentSubtaskGid, depth } of allSubtasks) {
     let assigneeToSet: string | null = null;
+    let externalAssignee: string | null = null;
     if (st.assignee?.gid && existingAssignees.has(st.assignee.gid)) {
       assigneeToSet = st.assignee.gid;
+    } else if (st.assignee?.gid) {
+      externalAssignee = st.assignee.gid;
+      externalUsers.set(st.assignee.gid, { ...externalUsers.get(st.assignee.gid), ...st.assignee });
     }
 
     subtaskRows.push({
@@ -285,67 +1360,61 @@ export async function syncFromAsana() {
       completed: st.completed ?? null,
       created_at: st.created_at ? new Date(st.created_at) : null,
       completed_at: st.completed_at ? new Date(st.completed_at) : null,
-      due_on: st.due_on ? new Date(st.due_on) : null,
+      due_on: parseReportDate(st.due_on),
+      parent_subtask_gid: parentSubtaskGid,
+      depth,
+      external_assignee_gid: externalAssignee,
     });
 
     if (st.followers?.length) {
       const followerGids = new Set<string>();
+      const externalGids = new Set<string>();
       for (const f of st.followers) {
         if (!f.gid) continue;
-        if (f.gid === assigneeToSet) continue;
-        if (!existingAssignees.has(f.gid)) continue;
+        if (f.gid === assigneeToSet || f.gid === externalAssignee) continue;
+        if (!existingAssignees.has(f.gid)) {
+          externalGids.add(f.gid);
+          externalUsers.set(f.gid, { ...externalUsers.get(f.gid), ...f });
+          continue;
+        }
         followerGids.add(f.gid);
       }
       Array.from(followerGids).forEach((gid) => followerRows.push({ task_gid: st.gid, follower_gid: gid }));
+      Array.from(externalGids).forEach((gid) => externalFollowerRows.push({ task_gid: st.gid, follower_gid: gid }));
     }
   }
 
-  // Bulk insert subtasks and followers in chunks
-  const insertInChunks = async <T>(rows: T[], modelCreateMany: (opts: { data: T[]; skipDuplicates?: boolean }) => Promise<unknown>) => {
-    const chunkSize = 500;
-    for (let i = 0; i < rows.length; i += chunkSize) {
-      const chunk = rows.slice(i, i + chunkSize);
-      console.log(`[asana] inserting chunk ${i}-${i + chunk.length} into db`);
-      await modelCreateMany({ data: chunk, skipDuplicates: true });
-    }
-  };
-
-  if (subtaskRows.length > 0) {
-    console.log(`[asana] inserting ${subtaskRows.length} subtasks`);
-    await insertInChunks(subtaskRows, prisma.subtasks.createMany.bind(prisma.subtasks));
-  }
-
-  if (followerRows.length > 0) {
-    console.log(`[asana] inserting ${followerRows.length} follower links`);
-    await insertInChunks(followerRows, prisma.task_followers.createMany.bind(prisma.task_followers));
-  }
+  return { subtaskRows, followerRows, externalFollowerRows, externalUsers: Array.from(externalUsers.values()) };
+}
 
-  // Write sync metadata. If there were parse failures, include a summary message.
+// Write sync metadata. If there were parse failures, include a summary message.
+// The cursor is only advanced here, after every write succeeded.
+async function writeSyncMetadata(parseFailures: ParseFailure[], startedAt: Date) {
   const now = new Date();
+  let msg = "OK";
   if (parseFailures.length > 0) {
     const sample = parseFailures.slice(0, 5).map((p) => `${p.gid}:${p.name ?? "<no-name>"}`).join('; ');
-    const msg = `parsed_week_start failures=${parseFailures.length}; examples=${sample}`;
-    await prisma.sync_metadata.upsert({
+    msg = `parsed_week_start failures=${parseFailures.length}; examples=${sample}`;
+  }
+  await prisma.$transaction([
+    prisma.sync_metadata.upsert({
       where: { key: "asana_sync" },
       update: { updated_at: now, message: msg },
       create: { key: "asana_sync", updated_at: now, message: msg },
-    });
-  } else {
-    await prisma.sync_metadata.upsert({
-      where: { key: "asana_sync" },
-      update: { updated_at: now, message: "OK" },
-      create: { key: "asana_sync", updated_at: now, message: "OK" },
-    });
-  }
-
-  return { sections: sections.length, tasks: tasks.length, subtasks: subtaskRows.length };
+    }),
+    prisma.sync_metadata.upsert({
+      where: { key: SYNC_CURSOR_KEY },
+      update: { updated_at: startedAt, message: null },
+      create: { key: SYNC_CURSOR_KEY, updated_at: startedAt },
+    }),
+  ]);
 }
 
 async function paginate<T>(client: AxiosInstance, path: string, opts?: { params?: Record<string, unknown> }): Promise<T[]> {
   const out: T[] = [];
   let url = path;
   while (url) {
-    const res = await withBackoff(() => client.get(url, { params: opts?.params }));
+    const res = await withBackoff(client, () => client.get(url, { params: opts?.params }));
     const data = (res.data?.data ?? []) as T[];
     out.push(...data);
     const next = res.data?.next_page?.uri as string | undefined;
@@ -359,3 +1428,54 @@ async function paginate<T>(client: AxiosInstance, path: string, opts?: { params?
   }
   return out;
 }
+
+type BatchOutcome<T> = { ok: true; data: T[] } | { ok: false; status: number; error: string };
+
+type BatchActionResult = {
+  status_code: number;
+  body?: { data?: unknown; next_page?: { offset?: string } | null; errors?: { message?: string }[] } | null;
+};
+
+/**
+ * Paginated GET of several collections through Asana's /batch endpoint, up to
+ * BATCH_MAX_ACTIONS actions per HTTP call. Every call goes through withBackoff,
+ * so it is rate limited and retried on 429 like any other request. Collections
+ * with more pages are queued again with their offset and share later batches.
+ * Outcomes come back in the order of `paths`; a failed action yields its
+ * status and message instead of failing the other actions.
+ */
+async function paginateBatch<T>(client: AxiosInstance, paths: string[], optFields: string, stats: RequestStats): Promise<BatchOutcome<T>[]> {
+  const data: T[][] = paths.map(() => []);
+  const outcomes: Array<BatchOutcome<T> | undefined> = new Array(paths.length);
+  let pending: Array<{ index: number; offset?: string }> = paths.map((_, index) => ({ index }));
+
+  while (pending.length > 0) {
+    const chunk = pending.slice(0, BATCH_MAX_ACTIONS);
+    pending = pending.slice(BATCH_MAX_ACTIONS);
+    const actions = chunk.map(({ index, offset }) => ({
+      relative_path: paths[index],
+      method: "get",
+      options: { fields: optFields.split(","), limit: 100, ...(offset ? { offset } : {}) },
+    }));
+    const res = await withBackoff(client, () => client.post(`/batch`, { data: { actions } }));
+    stats.batchRequests += 1;
+    stats.batchActions += actions.length;
+    stats.callsSaved += actions.length - 1;
+
+    const results = (res.data?.data ?? []) as BatchActionResult[];
+    chunk.forEach(({ index }, k) => {
+      const result = results[k];
+      const status = result?.status_code ?? 0;
+      if (status < 200 || status >= 300) {
+        const message = result?.body?.errors?.map((e) => e.message).filter(Boolean).join("; ") || `status ${status}`;
+        outcomes[index] = { ok: false, status, error: message };
+        return;
+      }
+      data[index].push(...((result.body?.data ?? []) as T[]));
+      const offset = result.body?.next_page?.offset;
+      if (offset) pending.push({ index, offset });
+    });
+  }
+
+  return paths.map((_, i) => outcomes[i] ?? { ok: true, data: data[i] });
+}
@@ -0,0 +1,107 @@
+import type { AxiosError } from "axios";
+
+// Retry policy for transient Asana failures: 5xx responses, dropped
+// connections and timeouts. Each client gets its own guard, so a sync run has
+// one retry budget and one circuit breaker shared by all of its requests.
+
+const envInt = (name: string, fallback: number, min: number) => {
+  const raw = Number(process.env[name] ?? fallback);
+  if (!Number.isFinite(raw) || raw < min) return fallback;
+  return Math.floor(raw);
+};
+
+// Attempts per request for a transient error before giving up on it. Default 5.
+const ASANA_MAX_RETRIES = envInt("ASANA_MAX_RETRIES", 5, 0);
+// Transient retries allowed across one client (one sync run). Default 100.
+const ASANA_RETRY_BUDGET = envInt("ASANA_RETRY_BUDGET", 100, 0);
+// Consecutive transient failures, with no success in between, that open the circuit. Default 10.
+const ASANA_CIRCUIT_THRESHOLD = envInt("ASANA_CIRCUIT_THRESHOLD", 10, 1);
+
+const RETRY_BASE_MS = 500;
+const RETRY_MAX_MS = 30000;
+
+const TRANSIENT_STATUS = new Set([500, 502, 503, 504]);
+const TRANSIENT_CODES = new Set(["ECONNRESET", "ECONNREFUSED", "ECONNABORTED", "ETIMEDOUT", "EPIPE", "EAI_AGAIN", "ERR_NETWORK"]);
+
+// Thrown for every request once the circuit is open. The message is the
+// reason that ends up in the sync history.
+export class CircuitOpenError extends Error {
+  constructor(reason: string) {
+    super(`Asana circuit breaker opened: ${reason}`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+export function isTransientError(e: unknown): boolean {
+  const err = e as AxiosError;
+  if (!err?.isAxiosError) return false;
+  const status = err.response?.status;
+  if (status != null) return TRANSIENT_STATUS.has(status);
+  // No response at all: network error or timeout
+  return !err.code || TRANSIENT_CODES.has(err.code);
+}
+
+export function describeError(e: unknown): string {
+  const err = e as AxiosError;
+  if (err?.response?.status) return `HTTP ${err.response.status}`;
+  if (err?.code) return err.code;
+  return e instanceof Error ? e.message : String(e);
+}
+
+// Exponential backoff with full jitter: a random delay up to base * 2^attempt, capped
+export function jitteredDelay(attempt: number): number {
+  const ceiling = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** attempt);
+  return Math.floor(Math.random() * ceiling);
+}
+
+export type RetryGuard = {
+  readonly retries: number;
+  readonly openReason: string | null;
+  // Throws CircuitOpenError when the circuit is open
+  check(): void;
+  recordSuccess(): void;
+  // Record a transient failure and return whether the request may be retried.
+  // Opens the circuit when the budget is spent or too many failures in a row.
+  recordTransientFailure(e: unknown, attempt: number): boolean;
+};
+
+export function createRetryGuard(): RetryGuard {
+  let retries = 0;
+  let consecutive = 0;
+  let openReason: string | null = null;
+
+  const open = (reason: string) => {
+    if (openReason) return;
+    openReason = reason;
+    console.log(`[asana] circuit breaker opened: ${reason}`);
+  };
+
+  return {
+    get retries() {
+      return retries;
+    },
+    get openReason() {
+      return openReason;
+    },
+    check() {
+      if (openReason) throw new CircuitOpenError(openReason);
+    },
+    recordSuccess() {
+      consecutive = 0;
+    },
+    recordTransientFailure(e, attempt) {
+      consecutive += 1;
+      if (consecutive >= ASANA_CIRCUIT_THRESHOLD) {
+        open(`${consecutive} consecutive transient errors (last: ${describeError(e)})`);
+        return false;
+      }
+      if (retries >= ASANA_RETRY_BUDGET) {
+        open(`retry budget of ${ASANA_RETRY_BUDGET} exhausted (last: ${describeError(e)})`);
+        return false;
+      }
+      if (attempt >= ASANA_MAX_RETRIES) return false;
+      retries += 1;
+      return true;
+    },
+  };
+}
@@ -0,0 +1,182 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import prisma from "./prisma";
+import { applyTaskChanges, createAsanaWebhook, deleteAsanaWebhook, type TaskChangeResult, type WebhookFilter } from "./asana";
+import { getSyncProjects } from "./syncProjects";
+
+// Public URL Asana posts events to. Falls back to NEXTAUTH_URL, which already
+// holds the app's public base URL.
+function webhookTargetBase(): string {
+  const explicit = process.env.ASANA_WEBHOOK_URL;
+  if (explicit) return explicit;
+  const base = (process.env.NEXTAUTH_URL ?? "").replace(/\/$/, "");
+  if (!base) throw new Error("ASANA_WEBHOOK_URL or NEXTAUTH_URL is required to register a webhook");
+  return `${base}/api/asana/webhook`;
+}
+
+// Task events cover completion, assignee, due date, follower, tag, section and subtask changes;
+// story events cover new comments, which do not change the task itself.
+const WEBHOOK_FILTERS: WebhookFilter[] = [
+  { resource_type: "story", action: "added" },
+  { resource_type: "task", action: "added" },
+  { resource_type: "task", action: "changed" },
+  { resource_type: "task", action: "removed" },
+  { resource_type: "task", action: "deleted" },
+  { resource_type: "task", action: "undeleted" },
+];
+
+export type AsanaWebhookEvent = {
+  action: "added" | "changed" | "removed" | "deleted" | "undeleted" | string;
+  created_at?: string;
+  resource: { gid: string; resource_type: string; resource_subtype?: string };
+  parent?: { gid: string; resource_type: string } | null;
+  change?: { field?: string; action?: string };
+};
+
+export type WebhookState = {
+  resourceGid: string;
+  webhookGid: string | null;
+  target: string;
+  status: string;
+  error: string | null;
+  updatedAt: Date | null;
+  lastEventAt: Date | null;
+};
+
+/**
+ * Accept the X-Hook-Secret handshake for `resourceGid`. Only a registration
+ * started by registerProjectWebhook (status "pending", no secret yet) can be
+ * completed, so an outside caller cannot replace the stored secret.
+ */
+export async function completeHandshake(resourceGid: string, secret: string): Promise<boolean> {
+  const updated = await prisma.asana_webhooks.updateMany({
+    where: { resource_gid: resourceGid, status: "pending", secret: null },
+    data: { secret, updated_at: new Date() },
+  });
+  return updated.count > 0;
+}
+
+// Verify X-Hook-Signature: hex HMAC-SHA256 of the raw request body keyed with the handshake secret.
+export async function verifySignature(resourceGid: string, rawBody: string, signature: string): Promise<boolean> {
+  const row = await prisma.asana_webhooks.findUnique({ where: { resource_gid: resourceGid }, select: { secret: true } });
+  if (!row?.secret) return false;
+  const expected = createHmac("sha256", row.secret).update(rawBody).digest();
+  const given = Buffer.from(signature, "hex");
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Apply a batch of webhook events to the local tables. Events are reduced to
+ * the set of task gids to re-fetch and the set to delete. Returns null when a
+ * sync holds the lock and the changes were queued for it.
+ */
+export async function handleWebhookEvents(resourceGid: string, events: AsanaWebhookEvent[]): Promise<TaskChangeResult | null> {
+  await prisma.asana_webhooks.update({ where: { resource_gid: resourceGid }, data: { last_event_at: new Date() } });
+
+  const changed = new Set<string>();
+  const deleted = new Set<string>();
+  for (const ev of events) {
+    // A story added to a task: re-fetch the task, which re-reads its stories
+    if (ev.resource?.resource_type === "story") {
+      if (ev.parent?.resource_type === "task" && !deleted.has(ev.parent.gid)) changed.add(ev.parent.gid);
+      continue;
+    }
+    if (ev.resource?.resource_type !== "task") continue;
+    const gid = ev.resource.gid;
+    if (ev.action === "deleted") {
+      deleted.add(gid);
+      changed.delete(gid);
+    } else {
+      // added, changed, undeleted or removed: re-fetch. A task removed from the
+      // watched project may still belong to another synced project, so
+      // applyTaskChanges decides whether it is dropped.
+      deleted.delete(gid);
+      changed.add(gid);
+    }
+  }
+  if (changed.size === 0 && deleted.size === 0) return null;
+
+  const result = await applyTaskChanges({ changed: Array.from(changed), deleted: Array.from(deleted) });
+  if (!result) {
+    console.log(`[webhook] queued ${changed.size + deleted.size} task changes from ${events.length} events until the running sync releases its lock`);
+    return null;
+  }
+  console.log(`[webhook] applied ${events.length} events: tasks=${JSON.stringify(result.tasks)} subtasks=${JSON.stringify(result.subtasks)} followers=${JSON.stringify(result.followers)} customFields=${JSON.stringify(result.customFields)} stories=${JSON.stringify(result.stories)} statusEvents=${JSON.stringify(result.statusEvents)} taskTags=${JSON.stringify(result.taskTags)} taskSections=${JSON.stringify(result.taskSections)} dependencies=${JSON.stringify(result.dependencies)} externalFollowers=${JSON.stringify(result.externalFollowers)} ignored=${result.ignored}`);
+  return result;
+}
+
+/**
+ * Register (or refresh) the webhook on one project. An existing webhook is
+ * deleted first, then a new one is created; Asana calls back our handshake
+ * endpoint while the create request is in flight.
+ */
+export async function registerProjectWebhook(resourceGid: string): Promise<WebhookState> {
+  const target = `${webhookTargetBase()}?resource=${encodeURIComponent(resourceGid)}`;
+
+  const existing = await prisma.asana_webhooks.findUnique({ where: { resource_gid: resourceGid } });
+  if (existing?.webhook_gid) {
+    console.log(`[webhook] deleting existing webhook ${existing.webhook_gid}`);
+    await deleteAsanaWebhook(existing.webhook_gid);
+  }
+
+  const now = new Date();
+  await prisma.asana_webhooks.upsert({
+    where: { resource_gid: resourceGid },
+    update: { webhook_gid: null, target, secret: null, status: "pending", error: null, updated_at: now },
+    create: { resource_gid: resourceGid, target, status: "pending", updated_at: now },
+  });
+
+  try {
+    const { gid } = await createAsanaWebhook(resourceGid, target, WEBHOOK_FILTERS);
+    const row = await prisma.asana_webhooks.update({
+      where: { resource_gid: resourceGid },
+      data: { webhook_gid: gid, status: "active", updated_at: new Date() },
+    });
+    console.log(`[webhook] registered webhook ${gid} for resource ${resourceGid}`);
+    return toState(row);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    const row = await prisma.asana_webhooks.update({
+      where: { resource_gid: resourceGid },
+      data: { status: "failed", error: message, updated_at: new Date() },
+    });
+    console.error(`[webhook] registration failed for resource ${resourceGid}:`, message);
+    return toState(row);
+  }
+}
+
+// Register webhooks on every synced project. A failure on one project is
+// recorded on its row and does not stop the others.
+export async function registerProjectWebhooks(): Promise<WebhookState[]> {
+  const projects = await getSyncProjects();
+  if (projects.length === 0) throw new Error("no projects to register webhooks for");
+  const states: WebhookState[] = [];
+  for (const project of projects) {
+    states.push(await registerProjectWebhook(project.gid));
+  }
+  return states;
+}
+
+// Webhook state of every synced project; projects without a registration are
+// reported as "unregistered".
+export async function getProjectWebhookStates(): Promise<WebhookState[]> {
+  const projects = await getSyncProjects();
+  const rows = await prisma.asana_webhooks.findMany({ where: { resource_gid: { in: projects.map((p) => p.gid) } } });
+  const byResource = new Map(rows.map((r) => [r.resource_gid, r]));
+  return projects.map((p) => {
+    const row = byResource.get(p.gid);
+    if (row) return toState(row);
+    return { resourceGid: p.gid, webhookGid: null, target: "", status: "unregistered", error: null, updatedAt: null, lastEventAt: null };
+  });
+}
+
+function toState(row: { resource_gid: string; webhook_gid: string | null; target: string; status: string; error: string | null; updated_at: Date; last_event_at: Date | null }): WebhookState {
+  return {
+    resourceGid: row.resource_gid,
+    webhookGid: row.webhook_gid,
+    target: row.target,
+    status: row.status,
+    error: row.error,
+    updatedAt: row.updated_at,
+    lastEventAt: row.last_event_at,
+  };
+}
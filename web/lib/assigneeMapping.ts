@@ -0,0 +1,238 @@
+import prisma from "./prisma";
+import { decrypt } from "./crypto";
+import { claimExternalLinks, releaseAssigneeLinks } from "./externalUsers";
+import type { AsanaUser, TaskSource } from "./taskSource";
+
+// Which Asana user each mas_user is. The sync reads the users of the team and
+// of the workspace directory, matches their emails to mas_user ignoring case
+// and alias domains, and records the matches as proposals. `assignees` only
+// changes when an admin approves one in /admin/assignee-mappings.
+
+export type MappingSource = "team" | "workspace";
+export type ProposalKind = "new" | "changed" | "conflict";
+export type ProposalStatus = "pending" | "approved" | "rejected";
+
+/**
+ * Alias domain groups, e.g. "mahidol.ac.th,mahidol.edu;student.mahidol.ac.th,student.mahidol.edu":
+ * groups are separated by ";", the domains of a group by ",". Every domain
+ * maps to the first one of its group.
+ */
+export function parseAliasDomains(value: string | undefined): Map<string, string> {
+  const aliases = new Map<string, string>();
+  for (const group of (value ?? "").split(";")) {
+    const domains = group.split(",").map((d) => d.trim().toLowerCase().replace(/^@/, "")).filter(Boolean);
+    for (const d of domains) aliases.set(d, domains[0]);
+  }
+  return aliases;
+}
+
+export const EMAIL_ALIAS_DOMAINS = parseAliasDomains(process.env.ASANA_EMAIL_ALIAS_DOMAINS);
+
+// An email as compared across alias domains: lower case, domain replaced by the first of its group
+export function emailKey(email: string, aliases: Map<string, string> = EMAIL_ALIAS_DOMAINS): string {
+  const [local, domain] = email.trim().toLowerCase().split(/@(?=[^@]*$)/);
+  if (!domain) return local;
+  return `${local}@${aliases.get(domain) ?? domain}`;
+}
+
+export type MappingCandidate = {
+  email: string;
+  user: AsanaUser;
+  source: MappingSource;
+  kind: ProposalKind;
+  currentGid: string | null;
+  note: string | null;
+};
+
+/**
+ * Match Asana users to mas_user emails. Pairs that `current` (the assignees
+ * table) already has are left out unless they are part of a conflict: an
+ * email matching several Asana users, or an Asana user matching several
+ * emails or already linked to another email.
+ */
+export function matchAssignees(
+  users: { user: AsanaUser; source: MappingSource }[],
+  masEmails: string[],
+  current: { email: string; assignee_gid: string | null }[],
+  aliases: Map<string, string> = EMAIL_ALIAS_DOMAINS,
+): MappingCandidate[] {
+  const masByKey = new Map<string, string[]>();
+  for (const email of masEmails) {
+    const key = emailKey(email, aliases);
+    masByKey.set(key, [...(masByKey.get(key) ?? []), email]);
+  }
+  const currentGid = new Map(current.map((a) => [a.email, a.assignee_gid]));
+  const linkedEmail = new Map(current.filter((a) => a.assignee_gid).map((a) => [a.assignee_gid!, a.email]));
+
+  const byEmail = new Map<string, { user: AsanaUser; source: MappingSource }[]>();
+  const emailsOfGid = new Map<string, string[]>();
+  for (const u of users) {
+    if (!u.user.email) continue;
+    for (const email of masByKey.get(emailKey(u.user.email, aliases)) ?? []) {
+      byEmail.set(email, [...(byEmail.get(email) ?? []), u]);
+      emailsOfGid.set(u.user.gid, [...(emailsOfGid.get(u.user.gid) ?? []), email]);
+    }
+  }
+
+  const candidates: MappingCandidate[] = [];
+  for (const [email, matches] of Array.from(byEmail.entries())) {
+    const current = currentGid.get(email) ?? null;
+    for (const { user, source } of matches) {
+      const otherEmails = (emailsOfGid.get(user.gid) ?? []).filter((e) => e !== email);
+      const holder = linkedEmail.get(user.gid);
+      let note: string | null = null;
+      if (matches.length > 1) note = `email matches ${matches.length} Asana users: ${matches.map((m) => `${m.user.gid} (${m.user.email})`).join(", ")}`;
+      else if (otherEmails.length > 0) note = `Asana user also matches ${otherEmails.join(", ")}`;
+      else if (holder && holder !== email) note = `Asana user is linked to ${holder}`;
+
+      if (!note && current === user.gid) continue;
+      candidates.push({ email, user, source, kind: note ? "conflict" : current ? "changed" : "new", currentGid: current, note });
+    }
+  }
+  return candidates;
+}
+
+export type MappingScope = { teamGid?: string; workspaceGid?: string };
+
+// Users of the team and workspace matched against mas_user and `assignees`,
+// with the proposals stored so far
+async function fetchMappingCandidates(source: TaskSource, scope: MappingScope) {
+  const users = new Map<string, { user: AsanaUser; source: MappingSource }>();
+  if (scope.workspaceGid) {
+    console.log(`[assignees] fetching workspace users for workspace ${scope.workspaceGid}`);
+    for (const user of await source.listWorkspaceUsers(scope.workspaceGid)) users.set(user.gid, { user, source: "workspace" });
+  }
+  if (scope.teamGid) {
+    console.log(`[assignees] fetching team users for team ${scope.teamGid}`);
+    for (const user of await source.listTeamUsers(scope.teamGid)) users.set(user.gid, { user: { ...users.get(user.gid)?.user, ...user }, source: "team" });
+  }
+
+  const [masUsers, current, stored] = await Promise.all([
+    prisma.mas_user.findMany({ select: { email: true } }),
+    prisma.assignees.findMany({ select: { email: true, assignee_gid: true } }),
+    prisma.assignee_mapping_proposals.findMany({ select: { id: true, email: true, assignee_gid: true, status: true } }),
+  ]);
+  const candidates = matchAssignees(Array.from(users.values()), masUsers.map((u) => u.email), current);
+  return { users, candidates, stored };
+}
+
+/**
+ * Read the users of `teamGid` and `workspaceGid` and bring the pending
+ * proposals up to date: new matches are added, matches that went away are
+ * dropped, and rejected pairs stay rejected.
+ */
+export async function refreshAssigneeProposals(source: TaskSource, scope: MappingScope) {
+  const { users, candidates, stored } = await fetchMappingCandidates(source, scope);
+  const storedByPair = new Map(stored.map((p) => [`${p.email}:${p.assignee_gid}`, p]));
+
+  const now = new Date();
+  const keep = new Set<number>();
+  for (const c of candidates) {
+    const prev = storedByPair.get(`${c.email}:${c.user.gid}`);
+    const data = { asana_email: c.user.email ?? null, asana_name: c.user.name ?? null, source: c.source, kind: c.kind, current_gid: c.currentGid, note: c.note, updated_at: now };
+    if (prev?.status === "rejected") {
+      await prisma.assignee_mapping_proposals.update({ where: { id: prev.id }, data });
+      keep.add(prev.id);
+    } else if (prev) {
+      // An approved pair proposed again was changed afterwards and needs a new review
+      await prisma.assignee_mapping_proposals.update({ where: { id: prev.id }, data: { ...data, status: "pending", reviewed_by: null, reviewed_at: null } });
+      keep.add(prev.id);
+    } else {
+      const created = await prisma.assignee_mapping_proposals.create({ data: { email: c.email, assignee_gid: c.user.gid, ...data, created_at: now } });
+      keep.add(created.id);
+    }
+  }
+  const stale = await prisma.assignee_mapping_proposals.deleteMany({ where: { status: "pending", id: { notIn: Array.from(keep) } } });
+
+  const pending = candidates.filter((c) => storedByPair.get(`${c.email}:${c.user.gid}`)?.status !== "rejected");
+  const conflicts = pending.filter((c) => c.kind === "conflict").length;
+  console.log(`[assignees] ${users.size} Asana users, ${pending.length} pending mapping proposals (${conflicts} conflicts), ${stale.count} outdated removed`);
+  return { users: users.size, pending: pending.length, conflicts, removed: stale.count };
+}
+
+// The matches a refresh would leave pending, without storing them (dry-run sync)
+export async function previewAssigneeProposals(source: TaskSource, scope: MappingScope): Promise<MappingCandidate[]> {
+  const { candidates, stored } = await fetchMappingCandidates(source, scope);
+  const rejected = new Set(stored.filter((p) => p.status === "rejected").map((p) => `${p.email}:${p.assignee_gid}`));
+  return candidates.filter((c) => !rejected.has(`${c.email}:${c.user.gid}`));
+}
+
+// Proposals of one status (every status when omitted), conflicts first
+export async function listAssigneeProposals(status?: ProposalStatus) {
+  const proposals = await prisma.assignee_mapping_proposals.findMany({
+    where: status ? { status } : {},
+    orderBy: [{ email: "asc" }, { assignee_gid: "asc" }],
+  });
+  const users = await prisma.mas_user.findMany({ where: { email: { in: Array.from(new Set(proposals.map((p) => p.email))) } }, select: { email: true, firstname: true, lastname: true } });
+  const names = new Map(users.map((u) => [u.email, `${u.firstname ? decrypt(u.firstname) : ""} ${u.lastname ? decrypt(u.lastname) : ""}`.trim() || null]));
+  const rank = (kind: string) => (kind === "conflict" ? 0 : 1);
+  return proposals
+    .map((p) => ({ ...p, name: names.get(p.email) ?? null }))
+    .sort((a, b) => rank(a.kind) - rank(b.kind));
+}
+
+export type ReviewResult = { ok: true } | { ok: false; status: number; error: string };
+
+/**
+ * Link the proposal's email to its Asana user in `assignees`. Work stored
+ * under the gid the email had before, or under the email the gid had before,
+ * becomes external (see externalUsers.ts) until that gid is linked again.
+ * Other pending proposals for the same email or gid are rejected.
+ */
+export async function approveAssigneeProposal(id: number, principal: string): Promise<ReviewResult> {
+  const proposal = await prisma.assignee_mapping_proposals.findUnique({ where: { id } });
+  if (!proposal) return { ok: false, status: 404, error: "Proposal not found" };
+  if (proposal.status !== "pending") return { ok: false, status: 409, error: `Proposal is already ${proposal.status}` };
+  const masUser = await prisma.mas_user.findUnique({ where: { email: proposal.email }, select: { email: true } });
+  if (!masUser) return { ok: false, status: 409, error: `${proposal.email} is no longer in mas_user` };
+
+  const { email, assignee_gid: gid } = proposal;
+  await prisma.$transaction(async (tx) => {
+    const [row, holder] = await Promise.all([
+      tx.assignees.findUnique({ where: { email } }),
+      tx.assignees.findUnique({ where: { assignee_gid: gid } }),
+    ]);
+    let ownedTasks: string[] = [];
+    if (holder && holder.email !== email) {
+      // The gid moves to this email; its weekly tasks follow it
+      ownedTasks = await releaseAssigneeLinks(tx, gid, { name: proposal.asana_name, email: proposal.asana_email });
+      await tx.assignees.update({ where: { email: holder.email }, data: { assignee_gid: null } });
+    }
+    if (row?.assignee_gid && row.assignee_gid !== gid) {
+      await releaseAssigneeLinks(tx, row.assignee_gid, { email });
+    }
+    await tx.assignees.upsert({ where: { email }, update: { assignee_gid: gid }, create: { email, assignee_gid: gid } });
+    await claimExternalLinks(tx, gid);
+    if (ownedTasks.length > 0) await tx.tasks.updateMany({ where: { gid: { in: ownedTasks } }, data: { assignee_gid: gid } });
+
+    const now = new Date();
+    await tx.assignee_mapping_proposals.update({ where: { id }, data: { status: "approved", reviewed_by: principal, reviewed_at: now } });
+    await tx.assignee_mapping_proposals.updateMany({
+      where: { status: "pending", id: { not: id }, OR: [{ email }, { assignee_gid: gid }] },
+      data: { status: "rejected", reviewed_by: principal, reviewed_at: now, note: `superseded by proposal ${id}` },
+    });
+  });
+  console.log(`[assignees] ${principal} linked ${email} to Asana user ${gid}`);
+  return { ok: true };
+}
+
+export async function rejectAssigneeProposal(id: number, principal: string): Promise<ReviewResult> {
+  const proposal = await prisma.assignee_mapping_proposals.findUnique({ where: { id }, select: { status: true } });
+  if (!proposal) return { ok: false, status: 404, error: "Proposal not found" };
+  if (proposal.status !== "pending") return { ok: false, status: 409, error: `Proposal is already ${proposal.status}` };
+  await prisma.assignee_mapping_proposals.update({ where: { id }, data: { status: "rejected", reviewed_by: principal, reviewed_at: new Date() } });
+  return { ok: true };
+}
+
+// Approve every pending proposal that is not a conflict
+export async function approveAllAssigneeProposals(principal: string) {
+  const proposals = await prisma.assignee_mapping_proposals.findMany({ where: { status: "pending", kind: { not: "conflict" } }, select: { id: true } });
+  let approved = 0;
+  const failed: { id: number; error: string }[] = [];
+  for (const p of proposals) {
+    const result = await approveAssigneeProposal(p.id, principal);
+    if (result.ok) approved += 1;
+    else failed.push({ id: p.id, error: result.error });
+  }
+  return { approved, failed };
+}
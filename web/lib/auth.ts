@@ -0,0 +1,134 @@
+import { getServerSession } from "next-auth";
+import type { NextAuthOptions, Account, Profile, Session, User, TokenSet } from "next-auth";
+import type { JWT } from "next-auth/jwt";
+import type { OAuthConfig } from "next-auth/providers/oauth";
+import { createHash, timingSafeEqual } from "crypto";
+
+const issuerRaw = process.env.ADFS_ISSUER ?? "";
+const issuer = issuerRaw.replace(/\/$/, "");
+
+type ADFSProfile = Profile & {
+  upn?: string;
+  unique_name?: string;
+  given_name?: string;
+  family_name?: string;
+};
+
+const mahidolProvider: OAuthConfig<ADFSProfile> = {
+  id: "mahidol",
+  name: "Mahidol ADFS",
+  type: "oauth",
+  // prefer OIDC discovery when available
+  wellKnown: issuer ? `${issuer}/.well-known/openid-configuration` : undefined,
+  authorization: issuer
+    ? {
+        url: `${issuer}/oauth2/authorize`,
+        params: {
+          scope: "openid profile email",
+          response_mode: "query",
+          ...(process.env.ADFS_RESOURCE ? { resource: process.env.ADFS_RESOURCE } : {}),
+        },
+      }
+    : undefined,
+  token: issuer ? `${issuer}/oauth2/token` : undefined,
+  userinfo: issuer ? `${issuer}/userinfo` : undefined,
+  clientId: process.env.ADFS_CLIENT_ID,
+  clientSecret: process.env.ADFS_CLIENT_SECRET,
+  checks: ["pkce", "state"],
+  // profile receives either the /userinfo result or the decoded id_token claims
+  profile(profile: ADFSProfile) {
+    const id = profile.sub ?? profile.upn ?? profile.unique_name ?? "";
+    const given = profile.given_name ?? undefined;
+    const family = profile.family_name ?? undefined;
+    const nameFromParts = [given, family].filter(Boolean).join(" ");
+    const name = profile.name ?? (nameFromParts ? nameFromParts : profile.upn ?? profile.unique_name ?? "");
+    const email = profile.email ?? profile.upn ?? null;
+    return {
+      id,
+      name,
+      email,
+    } as User;
+  },
+};
+
+export const authOptions: NextAuthOptions = {
+  providers: [mahidolProvider],
+  session: { strategy: "jwt" },
+  secret: process.env.NEXTAUTH_SECRET,
+  callbacks: {
+    async jwt({ token, account, profile }: { token: JWT; account?: Account | null; profile?: Profile | undefined }): Promise<JWT> {
+      // account may include token fields (access_token, id_token) depending on provider
+      if (account) {
+        const acct = account as Partial<TokenSet> & Account;
+        const access = acct.access_token ?? ((acct as unknown) as Record<string, unknown>)['accessToken']; // fallback naming
+        if (access) {
+          (token as Record<string, unknown>)["accessToken"] = access as string;
+        }
+      }
+      if (profile) {
+        (token as Record<string, unknown>)["name"] = (token as Record<string, unknown>)["name"] ?? profile.name ?? undefined;
+        (token as Record<string, unknown>)["email"] = (token as Record<string, unknown>)["email"] ?? profile.email ?? undefined;
+      }
+      return token;
+    },
+    async session({ session, token }: { session: Session; token: JWT }): Promise<Session> {
+      const t = token as Record<string, unknown>;
+      if (t["name"] && session.user) session.user.name = t["name"] as string;
+      if (t["email"] && session.user) session.user.email = t["email"] as string;
+  if (t["accessToken"]) ((session as unknown) as Record<string, unknown>)["accessToken"] = t["accessToken"];
+      return session;
+    },
+  },
+};
+
+// Comma-separated list of emails (ADMIN_EMAILS) allowed to use admin-only
+// endpoints such as POST /api/sync. Compared case-insensitively.
+function adminEmails(): Set<string> {
+  return new Set(
+    (process.env.ADMIN_EMAILS ?? "")
+      .split(",")
+      .map((e) => e.trim().toLowerCase())
+      .filter(Boolean)
+  );
+}
+
+export function isAdminEmail(email?: string | null): boolean {
+  if (!email) return false;
+  return adminEmails().has(email.toLowerCase());
+}
+
+// Compare via fixed-length digests so the check does not leak the key length
+// or matching prefix through timing.
+function safeEqual(a: string, b: string): boolean {
+  const ha = createHash("sha256").update(a).digest();
+  const hb = createHash("sha256").update(b).digest();
+  return timingSafeEqual(ha, hb);
+}
+
+export type AuthResult =
+  | { ok: true; principal: string; kind: "service" | "admin" }
+  | { ok: false; status: 401 | 403; error: string };
+
+/**
+ * Authorize a request to a sync endpoint. Accepts either
+ * `Authorization: Bearer <SYNC_SERVICE_KEY>` (used by the cron container) or a
+ * signed-in session whose email is listed in ADMIN_EMAILS. The returned
+ * principal is recorded with each sync run.
+ */
+export async function authorizeSyncRequest(req: Request): Promise<AuthResult> {
+  const header = req.headers.get("authorization");
+  if (header) {
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    const serviceKey = process.env.SYNC_SERVICE_KEY;
+    if (!match || !serviceKey || !safeEqual(match[1].trim(), serviceKey)) {
+      return { ok: false, status: 401, error: "invalid service key" };
+    }
+    return { ok: true, principal: "service", kind: "service" };
+  }
+
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  if (!email) return { ok: false, status: 401, error: "authentication required" };
+  if (!isAdminEmail(email)) return { ok: false, status: 403, error: "admin access required" };
+  return { ok: true, principal: `admin:${email.toLowerCase()}`, kind: "admin" };
+}
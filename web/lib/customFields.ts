@@ -0,0 +1,131 @@
+import prisma from "./prisma";
+import type { AsanaCustomField } from "./taskSource";
+import { parseReportDate, reportDateKey } from "./reportTime";
+
+// Custom field types we store. Other Asana types (people, formula, ...) are skipped.
+export type CustomFieldType = "enum" | "multi_enum" | "number" | "text" | "date";
+
+const SUPPORTED_TYPES = new Set<string>(["enum", "multi_enum", "number", "text", "date"]);
+
+// Fields requested for every task and subtask
+export const CUSTOM_FIELD_OPT_FIELDS = [
+  "custom_fields.name",
+  "custom_fields.resource_subtype",
+  "custom_fields.display_value",
+  "custom_fields.text_value",
+  "custom_fields.number_value",
+  "custom_fields.date_value",
+  "custom_fields.enum_value.name",
+  "custom_fields.multi_enum_values.name",
+].join(",");
+
+export type CustomFieldValueRow = {
+  resource_gid: string;
+  field_gid: string;
+  type: string;
+  text_value: string | null;
+  number_value: number | null;
+  date_value: Date | null;
+  enum_value: string | null;
+  multi_enum_values: string[];
+  display_value: string | null;
+};
+
+export type CustomFieldDefinition = { gid: string; name: string; type: CustomFieldType };
+
+// Map the custom fields of tasks or subtasks to value rows. Empty values are
+// not stored, so a missing row means the field is blank.
+export function buildCustomFieldRows(resources: { gid: string; custom_fields?: AsanaCustomField[] }[]): CustomFieldValueRow[] {
+  const rows: CustomFieldValueRow[] = [];
+  for (const r of resources) {
+    for (const f of r.custom_fields ?? []) {
+      const type = f.resource_subtype ?? "";
+      if (!SUPPORTED_TYPES.has(type)) continue;
+      const row: CustomFieldValueRow = {
+        resource_gid: r.gid,
+        field_gid: f.gid,
+        type,
+        text_value: type === "text" ? f.text_value ?? null : null,
+        number_value: type === "number" ? f.number_value ?? null : null,
+        date_value: type === "date" ? parseReportDate(f.date_value?.date) : null,
+        enum_value: type === "enum" ? f.enum_value?.name ?? null : null,
+        multi_enum_values: type === "multi_enum" ? (f.multi_enum_values ?? []).map((v) => v.name ?? v.gid) : [],
+        display_value: f.display_value ?? null,
+      };
+      const empty = row.text_value == null && row.number_value == null && row.date_value == null && row.enum_value == null && row.multi_enum_values.length === 0;
+      if (!empty) rows.push(row);
+    }
+  }
+  return rows;
+}
+
+// Field definitions seen on the given resources, one per field gid
+export function collectCustomFieldDefinitions(resources: { custom_fields?: AsanaCustomField[] }[]): CustomFieldDefinition[] {
+  const defs = new Map<string, CustomFieldDefinition>();
+  for (const r of resources) {
+    for (const f of r.custom_fields ?? []) {
+      const type = f.resource_subtype ?? "";
+      if (!SUPPORTED_TYPES.has(type) || defs.has(f.gid)) continue;
+      defs.set(f.gid, { gid: f.gid, name: f.name ?? f.gid, type: type as CustomFieldType });
+    }
+  }
+  return Array.from(defs.values());
+}
+
+// Keep names and types of known fields current; admin choices are left alone.
+export async function recordCustomFieldDefinitions(defs: CustomFieldDefinition[]) {
+  const now = new Date();
+  for (const d of defs) {
+    await prisma.custom_fields.upsert({
+      where: { gid: d.gid },
+      update: { name: d.name, type: d.type, updated_at: now },
+      create: { gid: d.gid, name: d.name, type: d.type, updated_at: now },
+    });
+  }
+}
+
+/**
+ * Replace the stored values of `resourceGids` with `rows`. Used by the
+ * incremental sync and webhooks, where only some tasks are re-read.
+ */
+export async function replaceCustomFieldValues(resourceGids: string[], rows: CustomFieldValueRow[]) {
+  if (resourceGids.length === 0) return { inserted: 0, deleted: 0 };
+  const [deleted, inserted] = await prisma.$transaction([
+    prisma.custom_field_values.deleteMany({ where: { resource_gid: { in: resourceGids } } }),
+    prisma.custom_field_values.createMany({ data: rows, skipDuplicates: true }),
+  ]);
+  return { inserted: inserted.count, deleted: deleted.count };
+}
+
+// Values have no foreign key (a resource is a task or a subtask), so values of
+// removed tasks and subtasks are cleaned up after deletions.
+export async function pruneCustomFieldValues(): Promise<number> {
+  return prisma.$executeRaw`
+    DELETE FROM custom_field_values v
+    WHERE NOT EXISTS (SELECT 1 FROM tasks t WHERE t.gid = v.resource_gid)
+      AND NOT EXISTS (SELECT 1 FROM subtasks st WHERE st.gid = v.resource_gid)`;
+}
+
+export async function listCustomFields() {
+  return prisma.custom_fields.findMany({ orderBy: { name: "asc" } });
+}
+
+// Fields admins chose to show as extra columns in the current tasks table
+export async function getTableCustomFields() {
+  return prisma.custom_fields.findMany({ where: { show_in_table: true }, select: { gid: true, name: true, type: true }, orderBy: { name: "asc" } });
+}
+
+// Fields admins chose to offer as report dimensions
+export async function getDimensionCustomFields() {
+  return prisma.custom_fields.findMany({ where: { report_dimension: true }, select: { gid: true, name: true, type: true }, orderBy: { name: "asc" } });
+}
+
+// Text shown for a value: Asana's display value, or the typed value as a fallback
+export function formatCustomFieldValue(v: Pick<CustomFieldValueRow, "display_value" | "text_value" | "number_value" | "date_value" | "enum_value" | "multi_enum_values">): string | null {
+  if (v.display_value) return v.display_value;
+  if (v.enum_value) return v.enum_value;
+  if (v.multi_enum_values.length > 0) return v.multi_enum_values.join(", ");
+  if (v.number_value != null) return String(v.number_value);
+  if (v.date_value) return reportDateKey(v.date_value);
+  return v.text_value;
+}
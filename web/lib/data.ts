@@ -1,7 +1,11 @@
 import prisma from "./prisma";
 import { decrypt } from "./crypto";
-import dayjs from 'dayjs';
-import type { StatusFilter, WeeklyPoint, CurrentTaskRow } from "./types";
+import { formatReportDate, reportDateKey, startOfReportDay } from "./reportTime";
+import { countedSubtaskWhere } from "./subtaskTree";
+import { loadBlockingChains } from "./subtaskDependencies";
+import { loadWeeklySnapshots } from "./weeklySnapshots";
+import { formatCustomFieldValue, getDimensionCustomFields, getTableCustomFields } from "./customFields";
+import type { StatusFilter, WeeklyPoint, CurrentTaskRow, CustomFieldBreakdown, TaskDetail, CycleTimeMetrics } from "./types";
 
 export async function getAssignees() {
   const assignees = await prisma.view_user_assignee.findMany({
@@ -43,52 +47,93 @@ export async function getAssigneeByGid(assigneeGid: string) {
   return { name, email: a.email };
 }
 
-// Helper to compute status from booleans and dates
-function computeStatus(params: { completed?: boolean | null; due_on?: Date | null }): "Pending" | "Completed" | "Overdue" {
-  const { completed, due_on } = params;
+// Synced Asana projects for the dashboard project filter
+export async function getProjects() {
+  const rows = await prisma.tasks.findMany({
+    where: { project: { not: null } },
+    distinct: ["project"],
+    select: { project: true },
+  });
+  const gids = rows.map((r) => r.project).filter((p): p is string => p !== null);
+  const names = await prisma.sync_projects.findMany({ where: { gid: { in: gids } }, select: { gid: true, name: true } });
+  const nameMap = new Map(names.map((n) => [n.gid, n.name]));
+  return gids.map((gid) => ({ gid, name: nameMap.get(gid) || gid })).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// "First Last" of a mas_user with encrypted names, or null without a user
+function displayName(user: { firstname: string | null; lastname: string | null } | null | undefined): string | null {
+  if (!user) return null;
+  const name = `${user.firstname ? decrypt(user.firstname) : ""} ${user.lastname ? decrypt(user.lastname) : ""}`.trim();
+  return name || null;
+}
+
+// Subtask filter selecting the work items reports count (see
+// REPORT_SUBTASK_COUNTING), restricted to one project when project is set
+function subtaskScope(project?: string | null) {
+  return { ...countedSubtaskWhere(), ...(project ? { tasks: { project } } : {}) };
+}
+
+// Subtasks waiting for at least one subtask that is not completed yet
+const blockedWhere = { dependencies: { some: { blocker: { completed: false } } } };
+// `_count` select giving the number of those open blockers; above 0 is blocked
+const openBlockersCount = { select: { dependencies: { where: { blocker: { completed: false } } } } };
+
+// Helper to compute status from booleans and dates. A task is overdue from the
+// day after its due date, in REPORT_TIMEZONE; open work waiting on another
+// subtask is blocked, whatever its due date.
+function computeStatus(params: { completed?: boolean | null; due_on?: Date | null; blocked?: boolean }): CurrentTaskRow["status"] {
+  const { completed, due_on, blocked } = params;
   if (completed) return "Completed";
-  if (due_on && new Date(due_on) < new Date()) return "Overdue";
+  if (blocked) return "Blocked";
+  if (due_on && new Date(due_on) < startOfReportDay()) return "Overdue";
   return "Pending";
 }
 
-export async function getSummaryMetrics(assigneeGid: string) {
+export async function getSummaryMetrics(assigneeGid: string, opts: { project?: string | null } = {}) {
+  const scope = subtaskScope(opts.project);
+  const taskScope = opts.project ? { project: opts.project } : {};
   // Count subtasks where the user is assignee OR follower
   const [asAssignee, asFollower] = await Promise.all([
-    prisma.subtasks.count({ where: { assignee_gid: assigneeGid } }),
-    prisma.task_followers.count({ where: { assignees: { assignee_gid: assigneeGid } } }),
+    prisma.subtasks.count({ where: { assignee_gid: assigneeGid, ...scope } }),
+    prisma.task_followers.count({ where: { assignees: { assignee_gid: assigneeGid }, subtasks: scope } }),
   ]);
 
   // Completed subtasks (owned or followed)
   const [completedOwned, completedFollow] = await Promise.all([
-    prisma.subtasks.count({ where: { assignee_gid: assigneeGid, completed: true } }),
-    prisma.task_followers.count({ where: { follower_gid: assigneeGid, subtasks: { completed: true } } }),
+    prisma.subtasks.count({ where: { assignee_gid: assigneeGid, completed: true, ...scope } }),
+    prisma.task_followers.count({ where: { follower_gid: assigneeGid, subtasks: { completed: true, ...scope } } }),
   ]);
 
   const total = asAssignee + asFollower;
   const completed = completedOwned + completedFollow;
   const completionRate = total > 0 ? Math.round((completed / total) * 100) : 0;
 
-  // Overdue: parent task due_on < today and subtask not completed
+  // Overdue: parent task due_on < today and subtask not completed or blocked
   const overdueOwned = await prisma.subtasks.count({
     where: {
       assignee_gid: assigneeGid,
       completed: false,
-      tasks: { due_on: { lt: new Date(new Date().toDateString()) } },
+      tasks: { due_on: { lt: startOfReportDay() }, ...taskScope },
+      NOT: blockedWhere,
+      ...countedSubtaskWhere(),
     },
   });
   const overdueFollow = await prisma.task_followers.count({
     where: {
       follower_gid: assigneeGid,
-      subtasks: { completed: false, tasks: { due_on: { lt: new Date(new Date().toDateString()) } } },
+      subtasks: { completed: false, tasks: { due_on: { lt: startOfReportDay() }, ...taskScope }, NOT: blockedWhere, ...countedSubtaskWhere() },
     },
   });
 
   return { total, completed, overdue: overdueOwned + overdueFollow, completionRate };
 }
 
-export async function getWeeklySummary(assigneeGid: string): Promise<WeeklyPoint[]> {
+// Closed weeks come from their frozen snapshot (see weeklySnapshots.ts), the
+// others are counted from the synced subtasks
+export async function getWeeklySummary(assigneeGid: string, opts: { project?: string | null } = {}): Promise<WeeklyPoint[]> {
   // Use subtasks as the primary source and join to parent tasks for week_startdate/due_on
   const expected = Number(process.env.REPORT_EXPECTED_TASKS_PER_WEEK ?? 3);
+  const snapshots = await loadWeeklySnapshots(assigneeGid, opts.project);
 
   // Fetch subtasks where the user is owner OR a follower, include parent task info and followers
   const subtaskRows = await prisma.subtasks.findMany({
@@ -97,6 +142,7 @@ export async function getWeeklySummary(assigneeGid: string): Promise<WeeklyPoint
         { assignee_gid: assigneeGid },
         { task_followers: { some: { follower_gid: assigneeGid } } },
       ],
+      ...subtaskScope(opts.project),
     },
     select: {
       gid: true,
@@ -105,6 +151,7 @@ export async function getWeeklySummary(assigneeGid: string): Promise<WeeklyPoint
       due_on: true,
       tasks: { select: { gid: true, name: true, week_startdate: true, due_on: true } },
       task_followers: { select: { follower_gid: true, assignees: { select: { mas_user: { select: { firstname: true, lastname: true } } } } } },
+      _count: openBlockersCount,
     },
     orderBy: { tasks: { week_startdate: "asc" } },
   });
@@ -118,9 +165,10 @@ export async function getWeeklySummary(assigneeGid: string): Promise<WeeklyPoint
     const isFollower = (st.task_followers ?? []).some((f) => f.follower_gid === assigneeGid);
     if (!isOwner && !isFollower) continue;
 
-    const weekKeyRaw = st.tasks?.week_startdate ?? st.tasks?.name ?? "No Week";
-    const weekKey = weekKeyRaw ? new Date(weekKeyRaw).toISOString() : "No Week";
-    const label = st.tasks?.week_startdate ? dayjs(st.tasks.week_startdate).format("DD MMM YYYY") : st.tasks?.name ?? "No Week";
+    // Weeks are keyed by their report calendar day, so starts stored at different times of that day share a bucket
+    const weekKey = st.tasks?.week_startdate ? reportDateKey(st.tasks.week_startdate) : st.tasks?.name ?? "No Week";
+    const label = st.tasks?.week_startdate ? formatReportDate(st.tasks.week_startdate, "DD MMM YYYY") : st.tasks?.name ?? "No Week";
+    if (snapshots.closed.has(weekKey)) continue;
 
     if (!byWeek.has(weekKey)) {
       byWeek.set(weekKey, { label, assigned: 0, completed: 0, overdue: 0, collab: 0, expected, _ws: st.tasks?.week_startdate ? new Date(st.tasks.week_startdate).toISOString() : null });
@@ -130,16 +178,22 @@ export async function getWeeklySummary(assigneeGid: string): Promise<WeeklyPoint
     if (isOwner) agg.assigned += 1;
     if (isFollower) agg.collab += 1;
     if ((isOwner || isFollower) && st.completed) agg.completed += 1;
-    if ((isOwner || isFollower) && !st.completed) {
+    // Blocked work is not overdue, as in computeStatus
+    if ((isOwner || isFollower) && !st.completed && st._count.dependencies === 0) {
       const dueRaw = st.due_on;
       if (dueRaw) {
         const dueDate = new Date(dueRaw);
-        const cutoff = new Date(new Date().toDateString()); // midnight today
+        const cutoff = startOfReportDay(); // midnight today
         if (dueDate < cutoff) agg.overdue += 1;
       }
     }
   }
 
+  for (const w of snapshots.weeks) {
+    const { week_startdate, ...counts } = w;
+    byWeek.set(reportDateKey(week_startdate), { label: formatReportDate(week_startdate, "DD MMM YYYY"), ...counts, _ws: week_startdate.toISOString() });
+  }
+
   type ExtendedPoint = WeeklyPoint & { _ws?: string | null };
   const result: ExtendedPoint[] = [];
   for (const v of Array.from(byWeek.values())) {
@@ -167,9 +221,9 @@ export async function getWeeklySummary(assigneeGid: string): Promise<WeeklyPoint
 
 export async function getCurrentTasks(
   assigneeGid: string,
-  opts: { status?: StatusFilter; page?: number; pageSize?: number } = {}
+  opts: { status?: StatusFilter; page?: number; pageSize?: number; project?: string | null } = {}
 ) {
-  const { status = "all", page = 1, pageSize = 10 } = opts;
+  const { status = "all", page = 1, pageSize = 10, project } = opts;
   // Instead of doing pagination in-memory, perform DB-level pagination.
   // We'll compute total count from filtered rows and then fetch a page using
   // offset/limit. To do that efficiently we need minimal fields from DB and
@@ -177,18 +231,24 @@ export async function getCurrentTasks(
   // Build where clauses for owner and follower
   const ownerWhere = { assignee_gid: assigneeGid };
   const followerWhere = { task_followers: { some: { follower_gid: assigneeGid } } };
+  const countedWhere = countedSubtaskWhere();
 
   // Build base where depending on status filter
-  const statusFilterWhere: { completed?: boolean; tasks?: { due_on?: { lt: Date } } } = {};
+  const statusFilterWhere: { completed?: boolean; tasks?: { due_on?: { lt: Date }; project?: string }; dependencies?: typeof blockedWhere["dependencies"]; NOT?: typeof blockedWhere } = project ? { tasks: { project } } : {};
   if (status !== "all") {
     if (status === "completed") {
       statusFilterWhere.completed = true;
     } else if (status === "pending") {
       statusFilterWhere.completed = false;
+      statusFilterWhere.NOT = blockedWhere;
     } else if (status === "overdue") {
-      // overdue = parent task due_on < today AND subtask not completed
+      // overdue = parent task due_on < today AND subtask not completed or blocked
       statusFilterWhere.completed = false;
-      statusFilterWhere.tasks = { due_on: { lt: new Date(new Date().toDateString()) } };
+      statusFilterWhere.tasks = { ...statusFilterWhere.tasks, due_on: { lt: startOfReportDay() } };
+      statusFilterWhere.NOT = blockedWhere;
+    } else if (status === "blocked") {
+      statusFilterWhere.completed = false;
+      statusFilterWhere.dependencies = blockedWhere.dependencies;
     }
   }
 
@@ -198,8 +258,8 @@ export async function getCurrentTasks(
   const total = await prisma.subtasks.count({
     where: {
       OR: [
-        { AND: [ownerWhere, statusFilterWhere] },
-        { AND: [followerWhere, statusFilterWhere] },
+        { AND: [ownerWhere, statusFilterWhere, countedWhere] },
+        { AND: [followerWhere, statusFilterWhere, countedWhere] },
       ],
     },
   });
@@ -213,8 +273,8 @@ export async function getCurrentTasks(
     OR: Array<{ AND: Array<Record<string, unknown>> }>;
   } = {
     OR: [
-      { AND: [ownerWhere, statusFilterWhere] },
-      { AND: [followerWhere, statusFilterWhere] },
+      { AND: [ownerWhere, statusFilterWhere, countedWhere] },
+      { AND: [followerWhere, statusFilterWhere, countedWhere] },
     ],
   };
 
@@ -227,8 +287,10 @@ export async function getCurrentTasks(
       completed: true,
       created_at: true,
       due_on: true,
-      tasks: { select: { gid: true, name: true, due_on: true, week_startdate: true } },
+      parent_subtask: { select: { name: true } },
+      tasks: { select: { gid: true, name: true, due_on: true, week_startdate: true, assignees: { select: { mas_user: { select: { firstname: true, lastname: true } } } } } },
       task_followers: { select: { follower_gid: true, assignees: { select: { mas_user: { select: { firstname: true, lastname: true } } } } } },
+      task_external_followers: { select: { external_asana_users: { select: { gid: true, name: true } } } },
     },
     // Order by parent task week_startdate (desc) first, then by completion (completed first).
     // To approximate Overdue before Pending within incomplete tasks, order by tasks.due_on asc
@@ -243,6 +305,9 @@ export async function getCurrentTasks(
     take: pageSize,
   });
 
+  // Chains of open blockers of the open rows on this page
+  const blockingChains = await loadBlockingChains(dbRows.filter((st) => !st.completed).map((st) => st.gid));
+
   // Map DB rows to CurrentTaskRow[] and apply status filter (since complex overdue logic
   // combining tasks.due_on and completed is easier in JS for formatting consistency)
   const mapped: CurrentTaskRow[] = dbRows.map((st) => {
@@ -250,24 +315,253 @@ export async function getCurrentTasks(
       const a = f.assignees;
       return { gid: f.follower_gid, first_name: a?.mas_user.firstname ? decrypt(a.mas_user.firstname) : "", last_name: a?.mas_user.lastname ? decrypt(a.mas_user.lastname) : "" };
     });
+    // People outside mas_user are listed under their Asana name
+    for (const { external_asana_users: u } of st.task_external_followers) {
+      followers.push({ gid: u.gid, first_name: u.name ?? u.gid, last_name: "" });
+    }
     const isFollower = followers.some((f) => f.gid === assigneeGid);
     const type: CurrentTaskRow['type'] = st.assignee_gid === assigneeGid ? 'Owner' : isFollower ? 'Collaborator' : 'Owner';
     // Compute status: prefer subtask.due_on but fall back to parent task due_on
     const effectiveDue = st.due_on ?? st.tasks?.due_on ?? null;
-    const statusStr = computeStatus({ completed: st.completed ?? false, due_on: effectiveDue });
+    const blockedBy = blockingChains.get(st.gid) ?? [];
+    const statusStr = computeStatus({ completed: st.completed ?? false, due_on: effectiveDue, blocked: blockedBy.length > 0 });
     return {
       gid: st.gid,
       name: st.name ?? "",
-      week: st.tasks?.week_startdate ? dayjs(st.tasks.week_startdate).format("DD MMM YYYY") : null,
-      created_at: st.created_at ? dayjs(st.created_at).format("DD MMM YYYY") : null,
-      due_on: st.due_on ? dayjs(st.due_on).format("DD MMM YYYY") : null,
+      week: st.tasks?.week_startdate ? formatReportDate(st.tasks.week_startdate, "DD MMM YYYY") : null,
+      created_at: st.created_at ? formatReportDate(st.created_at, "DD MMM YYYY") : null,
+      due_on: st.due_on ? formatReportDate(st.due_on, "DD MMM YYYY") : null,
       status: statusStr,
       type,
       followers,
+      taskOwner: displayName(st.tasks?.assignees?.mas_user),
+      parentSubtask: st.parent_subtask?.name ?? null,
+      blockedBy,
     };
   }).filter((r) => (status === 'all' ? true : r.status.toLowerCase() === status));
 
+  // Extra columns chosen in the admin screen
+  const customFieldColumns = await getTableCustomFields();
+  if (customFieldColumns.length > 0) {
+    const values = await loadCustomFieldValues(customFieldColumns.map((f) => f.gid), dbRows.map((st) => ({ gid: st.gid, parentGid: st.tasks?.gid ?? null })));
+    for (const r of mapped) {
+      const row = values.get(r.gid);
+      r.customFields = row ? Object.fromEntries(row) : {};
+    }
+  }
+
+  return { rows: mapped, total, pageSize, customFieldColumns };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-  return { rows: mapped, total, pageSize };
+const average = (values: number[]) => (values.length > 0 ? Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 10) / 10 : null);
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const value = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  return Math.round(value * 10) / 10;
 }
 
+/**
+ * Lead time (created to completed), cycle time (first assigned to completed)
+ * and reschedule/reopen counts of the subtasks the assignee owns. Completion
+ * is the last completed event, so a reopened subtask counts from its final
+ * completion; a subtask assigned at creation has no assigned event and its
+ * cycle time starts when it was created.
+ */
+export async function getCycleTimeMetrics(assigneeGid: string, opts: { project?: string | null } = {}): Promise<CycleTimeMetrics> {
+  const subtaskRows = await prisma.subtasks.findMany({
+    where: { assignee_gid: assigneeGid, ...subtaskScope(opts.project) },
+    select: {
+      completed: true,
+      subtask_status_events: { select: { event: true, occurred_at: true }, orderBy: { occurred_at: "asc" } },
+    },
+  });
+
+  const leadTimes: number[] = [];
+  const cycleTimes: number[] = [];
+  let reschedules = 0;
+  let rescheduledTasks = 0;
+  let reopened = 0;
+  for (const st of subtaskRows) {
+    const events = st.subtask_status_events;
+    const rescheduled = events.filter((e) => e.event === "rescheduled").length;
+    reschedules += rescheduled;
+    if (rescheduled > 0) rescheduledTasks += 1;
+    reopened += events.filter((e) => e.event === "reopened").length;
+
+    if (!st.completed) continue;
+    const completedAt = events.filter((e) => e.event === "completed").at(-1)?.occurred_at;
+    if (!completedAt) continue;
+    const created = events.find((e) => e.event === "created")?.occurred_at;
+    const assigned = events.find((e) => e.event === "assigned")?.occurred_at ?? created;
+    if (created) leadTimes.push(Math.max(0, completedAt.getTime() - created.getTime()) / DAY_MS);
+    if (assigned) cycleTimes.push(Math.max(0, completedAt.getTime() - assigned.getTime()) / DAY_MS);
+  }
+
+  return {
+    completed: leadTimes.length,
+    avgLeadTime: average(leadTimes),
+    medianLeadTime: median(leadTimes),
+    avgCycleTime: average(cycleTimes),
+    medianCycleTime: median(cycleTimes),
+    reschedules,
+    rescheduledTasks,
+    reopened,
+  };
+}
+
+// One subtask with its comments and activity, oldest first
+export async function getTaskDetail(subtaskGid: string): Promise<TaskDetail | null> {
+  const st = await prisma.subtasks.findUnique({
+    where: { gid: subtaskGid },
+    select: {
+      gid: true,
+      name: true,
+      completed: true,
+      due_on: true,
+      tasks: {
+        select: {
+          name: true,
+          due_on: true,
+          week_startdate: true,
+          week_enddate: true,
+          assignees: { select: { mas_user: { select: { firstname: true, lastname: true } } } },
+          task_tags: { select: { tags: { select: { name: true } } } },
+        },
+      },
+      assignees: { select: { mas_user: { select: { firstname: true, lastname: true } } } },
+      task_stories: { orderBy: { created_at: "asc" } },
+      _count: openBlockersCount,
+    },
+  });
+  if (!st) return null;
+  const assignee = displayName(st.assignees?.mas_user);
+  return {
+    gid: st.gid,
+    name: st.name ?? "",
+    parentName: st.tasks?.name ?? null,
+    week: st.tasks?.week_startdate
+      ? [st.tasks.week_startdate, st.tasks.week_enddate].filter((d): d is Date => d != null).map((d) => formatReportDate(d, "DD MMM YYYY")).join(" - ")
+      : null,
+    due_on: st.due_on ? formatReportDate(st.due_on, "DD MMM YYYY") : null,
+    status: computeStatus({ completed: st.completed ?? false, due_on: st.due_on ?? st.tasks?.due_on ?? null, blocked: st._count.dependencies > 0 }),
+    assignee,
+    taskOwner: displayName(st.tasks?.assignees?.mas_user),
+    tags: (st.tasks?.task_tags ?? []).map((t) => t.tags.name).sort((a, b) => a.localeCompare(b)),
+    stories: st.task_stories.map((s) => ({
+      gid: s.gid,
+      type: s.type,
+      resource_subtype: s.resource_subtype,
+      text: s.text,
+      author: s.author_name,
+      created_at: formatReportDate(s.created_at, "DD MMM YYYY HH:mm"),
+    })),
+  };
+}
+
+// Display values of `fieldGids` per subtask. A subtask without its own value
+// inherits the parent task's, since fields are often set on the weekly task only.
+async function loadCustomFieldValues(fieldGids: string[], subtasks: { gid: string; parentGid: string | null }[]) {
+  const resourceGids = Array.from(new Set(subtasks.flatMap((s) => (s.parentGid ? [s.gid, s.parentGid] : [s.gid]))));
+  const rows = await prisma.custom_field_values.findMany({ where: { field_gid: { in: fieldGids }, resource_gid: { in: resourceGids } } });
+  const byResource = new Map<string, Map<string, string>>();
+  for (const row of rows) {
+    const text = formatCustomFieldValue(row);
+    if (text == null) continue;
+    if (!byResource.has(row.resource_gid)) byResource.set(row.resource_gid, new Map());
+    byResource.get(row.resource_gid)!.set(row.field_gid, text);
+  }
+  const result = new Map<string, Map<string, string>>();
+  for (const s of subtasks) {
+    const own = byResource.get(s.gid);
+    const parent = s.parentGid ? byResource.get(s.parentGid) : undefined;
+    result.set(s.gid, new Map([...Array.from(parent?.entries() ?? []), ...Array.from(own?.entries() ?? [])]));
+  }
+  return result;
+}
+
+// Label used for subtasks without a value for a dimension
+const NO_VALUE = "ไม่ระบุ";
+
+/**
+ * Subtasks of the assignee (owned or followed) counted per value of each
+ * custom field chosen as a report dimension. Multi-enum values count the
+ * subtask once under each selected option.
+ */
+export async function getCustomFieldBreakdowns(assigneeGid: string, opts: { project?: string | null } = {}): Promise<CustomFieldBreakdown[]> {
+  const fields = await getDimensionCustomFields();
+  if (fields.length === 0) return [];
+
+  const subtaskRows = await prisma.subtasks.findMany({
+    where: {
+      OR: [
+        { assignee_gid: assigneeGid },
+        { task_followers: { some: { follower_gid: assigneeGid } } },
+      ],
+      ...subtaskScope(opts.project),
+    },
+    select: { gid: true, completed: true, due_on: true, tasks: { select: { gid: true, due_on: true } }, _count: openBlockersCount },
+  });
+
+  const fieldGids = fields.map((f) => f.gid);
+  const resourceGids = Array.from(new Set(subtaskRows.flatMap((st) => (st.tasks ? [st.gid, st.tasks.gid] : [st.gid]))));
+  const values = await prisma.custom_field_values.findMany({ where: { field_gid: { in: fieldGids }, resource_gid: { in: resourceGids } } });
+  const valueOf = new Map(values.map((v) => [`${v.resource_gid}:${v.field_gid}`, v]));
+
+  return fields.map((field) => {
+    const counts = new Map<string, { value: string; total: number; completed: number; overdue: number }>();
+    for (const st of subtaskRows) {
+      const v = valueOf.get(`${st.gid}:${field.gid}`) ?? (st.tasks ? valueOf.get(`${st.tasks.gid}:${field.gid}`) : undefined);
+      const labels = !v ? [NO_VALUE] : v.multi_enum_values.length > 0 ? v.multi_enum_values : [formatCustomFieldValue(v) ?? NO_VALUE];
+      const status = computeStatus({ completed: st.completed, due_on: st.due_on ?? st.tasks?.due_on ?? null, blocked: st._count.dependencies > 0 });
+      for (const label of labels) {
+        if (!counts.has(label)) counts.set(label, { value: label, total: 0, completed: 0, overdue: 0 });
+        const c = counts.get(label)!;
+        c.total += 1;
+        if (status === "Completed") c.completed += 1;
+        if (status === "Overdue") c.overdue += 1;
+      }
+    }
+    return { field, values: Array.from(counts.values()).sort((a, b) => b.total - a.total) };
+  });
+}
+
+/**
+ * Subtasks of the assignee (owned or followed) counted per tag of their
+ * parent task, e.g. "KPI" or "Urgent". A task with several tags counts under
+ * each. Null when no task has a tag, so the dashboard can skip the card.
+ */
+export async function getTagBreakdown(assigneeGid: string, opts: { project?: string | null } = {}): Promise<CustomFieldBreakdown | null> {
+  const tagged = await prisma.task_tags.count();
+  if (tagged === 0) return null;
+
+  const subtaskRows = await prisma.subtasks.findMany({
+    where: {
+      OR: [
+        { assignee_gid: assigneeGid },
+        { task_followers: { some: { follower_gid: assigneeGid } } },
+      ],
+      ...subtaskScope(opts.project),
+    },
+    select: { completed: true, due_on: true, tasks: { select: { due_on: true, task_tags: { select: { tags: { select: { name: true } } } } } }, _count: openBlockersCount },
+  });
+
+  const counts = new Map<string, { value: string; total: number; completed: number; overdue: number }>();
+  for (const st of subtaskRows) {
+    const names = (st.tasks?.task_tags ?? []).map((t) => t.tags.name);
+    const labels = names.length > 0 ? Array.from(new Set(names)) : [NO_VALUE];
+    const status = computeStatus({ completed: st.completed, due_on: st.due_on ?? st.tasks?.due_on ?? null, blocked: st._count.dependencies > 0 });
+    for (const label of labels) {
+      if (!counts.has(label)) counts.set(label, { value: label, total: 0, completed: 0, overdue: 0 });
+      const c = counts.get(label)!;
+      c.total += 1;
+      if (status === "Completed") c.completed += 1;
+      if (status === "Overdue") c.overdue += 1;
+    }
+  }
+  return { field: { gid: "tags", name: "Tag", type: "tag" }, values: Array.from(counts.values()).sort((a, b) => b.total - a.total) };
+}
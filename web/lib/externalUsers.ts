@@ -0,0 +1,146 @@
+import type { Prisma } from "@/generated/prisma";
+import prisma from "./prisma";
+import { encrypt } from "./crypto";
+import type { AsanaUser } from "./taskSource";
+
+// Asana users who are assigned to or follow synced subtasks without being in
+// `assignees` (their email is not in mas_user). Their links are kept in
+// subtasks.external_assignee_gid and task_external_followers instead of being
+// dropped, and an admin can promote them to mas_user later.
+
+export type ExternalFollowerRow = { task_gid: string; follower_gid: string };
+
+/**
+ * Record the external users a sync saw. Name and email are only overwritten
+ * when Asana returned them, since a follower often comes without an email.
+ */
+export async function recordExternalUsers(users: AsanaUser[]) {
+  const now = new Date();
+  for (const u of users) {
+    await prisma.external_asana_users.upsert({
+      where: { gid: u.gid },
+      update: { ...(u.name ? { name: u.name } : {}), ...(u.email ? { email: u.email } : {}), last_seen_at: now },
+      create: { gid: u.gid, name: u.name ?? null, email: u.email ?? null, first_seen_at: now, last_seen_at: now },
+    });
+  }
+}
+
+// External followers of changed subtasks, replaced like the follower links
+export async function replaceExternalFollowers(subtaskGids: string[], rows: ExternalFollowerRow[]) {
+  if (subtaskGids.length === 0) return { inserted: 0, deleted: 0 };
+  const [deleted, inserted] = await prisma.$transaction([
+    prisma.task_external_followers.deleteMany({ where: { task_gid: { in: subtaskGids } } }),
+    prisma.task_external_followers.createMany({ data: rows, skipDuplicates: true }),
+  ]);
+  return { inserted: inserted.count, deleted: deleted.count };
+}
+
+// Drop external users no synced subtask refers to any more
+export async function pruneExternalUsers() {
+  const removed = await prisma.external_asana_users.deleteMany({ where: { subtasks: { none: {} }, task_external_followers: { none: {} } } });
+  return removed.count;
+}
+
+// External users by how often they appear, assigned or following, most first
+export async function listExternalUsers() {
+  const users = await prisma.external_asana_users.findMany({
+    include: { _count: { select: { subtasks: true, task_external_followers: true } } },
+  });
+  return users
+    .map(({ _count, ...u }) => ({
+      ...u,
+      assigned: _count.subtasks,
+      following: _count.task_external_followers,
+      total: _count.subtasks + _count.task_external_followers,
+    }))
+    .sort((a, b) => b.total - a.total || (a.name ?? a.gid).localeCompare(b.name ?? b.gid));
+}
+
+export type PromoteInput = { email?: string | null; firstname?: string | null; lastname?: string | null; deptid?: string | null };
+
+export type PromoteResult =
+  | { ok: true; email: string; subtasks: number; followers: number }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Make an external user a mas_user and an assignee, and move their links to
+ * subtasks.assignee_gid and task_followers, so reports count their work right
+ * away instead of after the next sync. An existing mas_user with the email is
+ * linked as is. Names default to the Asana name split at the first space.
+ */
+export async function promoteExternalUser(gid: string, input: PromoteInput): Promise<PromoteResult> {
+  const external = await prisma.external_asana_users.findUnique({ where: { gid } });
+  if (!external) return { ok: false, status: 404, error: "External user not found" };
+  const given = (input.email || external.email || "").trim();
+  if (!given) return { ok: false, status: 400, error: "Email is required: Asana did not return one for this user" };
+
+  // mas_user emails keep the case they were imported with
+  const masUser = await prisma.mas_user.findFirst({ where: { email: { equals: given, mode: "insensitive" } }, select: { email: true } });
+  const email = masUser?.email ?? given.toLowerCase();
+  const [byEmail, byGid] = await Promise.all([
+    prisma.assignees.findUnique({ where: { email } }),
+    prisma.assignees.findUnique({ where: { assignee_gid: gid } }),
+  ]);
+  if (byEmail?.assignee_gid && byEmail.assignee_gid !== gid) return { ok: false, status: 409, error: `${email} is already linked to Asana user ${byEmail.assignee_gid}` };
+  if (byGid && byGid.email !== email) return { ok: false, status: 409, error: `Asana user ${gid} is already linked to ${byGid.email}` };
+
+  const [first, ...rest] = (external.name ?? "").trim().split(/\s+/);
+  const firstname = input.firstname?.trim() || first || null;
+  const lastname = input.lastname?.trim() || rest.join(" ") || null;
+
+  return prisma.$transaction(async (tx) => {
+    if (!masUser) {
+      await tx.mas_user.create({
+        data: {
+          email,
+          deptid: input.deptid || null,
+          firstname: firstname ? encrypt(firstname) : null,
+          lastname: lastname ? encrypt(lastname) : null,
+        },
+      });
+    }
+    await tx.assignees.upsert({ where: { email }, update: { assignee_gid: gid }, create: { email, assignee_gid: gid } });
+    const moved = await claimExternalLinks(tx, gid);
+    return { ok: true as const, email, ...moved };
+  });
+}
+
+/**
+ * Turn the external links of `gid` into assignee and follower links and drop
+ * the external user. Run in the transaction that links `gid` in `assignees`.
+ */
+export async function claimExternalLinks(tx: Prisma.TransactionClient, gid: string) {
+  const subtasks = await tx.subtasks.updateMany({ where: { external_assignee_gid: gid }, data: { assignee_gid: gid, external_assignee_gid: null } });
+  // An assignee is not also stored as a follower, as in the sync
+  const followers = await tx.$executeRaw`
+    INSERT INTO task_followers (task_gid, follower_gid)
+    SELECT f.task_gid, f.follower_gid FROM task_external_followers f JOIN subtasks st ON st.gid = f.task_gid
+    WHERE f.follower_gid = ${gid} AND st.assignee_gid IS DISTINCT FROM ${gid}
+    ON CONFLICT DO NOTHING`;
+  await tx.task_external_followers.deleteMany({ where: { follower_gid: gid } });
+  await tx.external_asana_users.deleteMany({ where: { gid } });
+  return { subtasks: subtasks.count, followers };
+}
+
+/**
+ * The reverse of claimExternalLinks, before `gid` is unlinked from its
+ * mas_user: its subtasks and follower links become external links. Weekly
+ * tasks have no external owner; their gids are returned with the owner cleared.
+ */
+export async function releaseAssigneeLinks(tx: Prisma.TransactionClient, gid: string, user: { name?: string | null; email?: string | null }) {
+  const now = new Date();
+  await tx.external_asana_users.upsert({
+    where: { gid },
+    update: { last_seen_at: now },
+    create: { gid, name: user.name ?? null, email: user.email ?? null, first_seen_at: now, last_seen_at: now },
+  });
+  await tx.subtasks.updateMany({ where: { assignee_gid: gid }, data: { assignee_gid: null, external_assignee_gid: gid } });
+  await tx.$executeRaw`
+    INSERT INTO task_external_followers (task_gid, follower_gid)
+    SELECT task_gid, follower_gid FROM task_followers WHERE follower_gid = ${gid}
+    ON CONFLICT DO NOTHING`;
+  await tx.task_followers.deleteMany({ where: { follower_gid: gid } });
+  const tasks = await tx.tasks.findMany({ where: { assignee_gid: gid }, select: { gid: true } });
+  await tx.tasks.updateMany({ where: { assignee_gid: gid }, data: { assignee_gid: null } });
+  return tasks.map((t) => t.gid);
+}
@@ -0,0 +1,156 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { AsanaSection, AsanaStory, AsanaSubtask, AsanaTask, AsanaTaskDetail, AsanaUser, StoryWithTask, SubtaskWithParent, TaskSource } from "./taskSource";
+
+// Fixture directories mirror the Asana API paths the live adapter reads:
+//
+//   teams/<team_gid>/users.json
+//   workspaces/<workspace_gid>/users.json
+//   projects/<project_gid>/sections.json
+//   projects/<project_gid>/tasks.json
+//   tasks/<task_gid>/task.json
+//   tasks/<task_gid>/subtasks.json
+//   tasks/<subtask_gid>/stories.json
+//
+// Each file holds the `data` array of the response; a whole `{ "data": [...] }`
+// body is accepted too. A missing file reads as an empty list, so parents
+// without subtasks and subtasks without stories need no file. task.json holds
+// the single task a webhook change re-fetches; without it the task reads as
+// deleted.
+
+const fixturePath = (dir: string, kind: "teams" | "workspaces" | "projects" | "tasks", gid: string, file: string) => {
+  // gids end up in file paths; refuse anything that could leave the directory
+  if (!/^[\w-]+$/.test(gid)) throw new Error(`invalid gid '${gid}' for fixture lookup`);
+  return path.join(dir, kind, gid, file);
+};
+
+async function readList<T>(file: string): Promise<T[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, "utf8");
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw e;
+  }
+  const parsed = JSON.parse(raw) as T[] | { data?: T[] };
+  return Array.isArray(parsed) ? parsed : parsed.data ?? [];
+}
+
+async function readRecord<T>(file: string): Promise<T | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, "utf8");
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw e;
+  }
+  const parsed = JSON.parse(raw) as T | { data: T };
+  return parsed && typeof parsed === "object" && "data" in parsed ? parsed.data : (parsed as T);
+}
+
+async function writeJson(file: string, data: unknown) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, `${JSON.stringify(data, null, 2)}\n`);
+}
+
+/**
+ * Offline adapter replaying a fixture directory. Modified tasks are derived
+ * from tasks.json by `modified_at`, so an incremental sync behaves like it
+ * would against Asana once the fixture files are edited.
+ */
+export function createFixtureSource(dir: string): TaskSource {
+  const root = path.resolve(dir);
+  return {
+    name: `fixture:${root}`,
+    listTeamUsers: (teamGid) => readList<AsanaUser>(fixturePath(root, "teams", teamGid, "users.json")),
+    listWorkspaceUsers: (workspaceGid) => readList<AsanaUser>(fixturePath(root, "workspaces", workspaceGid, "users.json")),
+    listSections: (projectGid) => readList<AsanaSection>(fixturePath(root, "projects", projectGid, "sections.json")),
+    listTasks: (projectGid) => readList<AsanaTask>(fixturePath(root, "projects", projectGid, "tasks.json")),
+    async listModifiedTasks(projectGid, since) {
+      const tasks = await readList<AsanaTask>(fixturePath(root, "projects", projectGid, "tasks.json"));
+      return tasks.filter((t) => !t.modified_at || new Date(t.modified_at) >= since);
+    },
+    getTask: (gid) => readRecord<AsanaTaskDetail>(fixturePath(root, "tasks", gid, "task.json")),
+    async listSubtasks(parentGids, onProgress) {
+      const out: SubtaskWithParent[] = [];
+      for (const gid of parentGids) {
+        const subs = await readList<AsanaSubtask>(fixturePath(root, "tasks", gid, "subtasks.json"));
+        for (const sub of subs) out.push({ sub, parentTaskGid: gid });
+      }
+      onProgress?.({ stage: "subtasks", done: parentGids.length, total: parentGids.length, failed: 0, retried: 0 });
+      return out;
+    },
+    async listStories(taskGids, onProgress) {
+      const out: StoryWithTask[] = [];
+      for (const gid of taskGids) {
+        const stories = await readList<AsanaStory>(fixturePath(root, "tasks", gid, "stories.json"));
+        for (const story of stories) out.push({ story, taskGid: gid });
+      }
+      onProgress?.({ stage: "stories", done: taskGids.length, total: taskGids.length, failed: 0, retried: 0 });
+      return out;
+    },
+  };
+}
+
+/**
+ * Wrap a source and write everything it returns into `dir` in the fixture
+ * layout, so a run against Asana can be replayed later. Modified-task lookups
+ * are passed through unrecorded; the fixture adapter derives them from tasks.json.
+ */
+export function createRecordingSource(inner: TaskSource, dir: string): TaskSource {
+  const root = path.resolve(dir);
+  console.log(`[fixture] recording ${inner.name} responses to ${root}`);
+  return {
+    name: `${inner.name} (recording)`,
+    async listTeamUsers(teamGid) {
+      const users = await inner.listTeamUsers(teamGid);
+      await writeJson(fixturePath(root, "teams", teamGid, "users.json"), users);
+      return users;
+    },
+    async listWorkspaceUsers(workspaceGid) {
+      const users = await inner.listWorkspaceUsers(workspaceGid);
+      await writeJson(fixturePath(root, "workspaces", workspaceGid, "users.json"), users);
+      return users;
+    },
+    async listSections(projectGid) {
+      const sections = await inner.listSections(projectGid);
+      await writeJson(fixturePath(root, "projects", projectGid, "sections.json"), sections);
+      return sections;
+    },
+    async listTasks(projectGid) {
+      const tasks = await inner.listTasks(projectGid);
+      await writeJson(fixturePath(root, "projects", projectGid, "tasks.json"), tasks);
+      return tasks;
+    },
+    listModifiedTasks: (projectGid, since) => inner.listModifiedTasks(projectGid, since),
+    async getTask(gid) {
+      const task = await inner.getTask(gid);
+      if (task) await writeJson(fixturePath(root, "tasks", gid, "task.json"), task);
+      return task;
+    },
+    async listSubtasks(parentGids, onProgress) {
+      const subtasks = await inner.listSubtasks(parentGids, onProgress);
+      const byParent = new Map<string, AsanaSubtask[]>();
+      for (const { sub, parentTaskGid } of subtasks) {
+        if (!byParent.has(parentTaskGid)) byParent.set(parentTaskGid, []);
+        byParent.get(parentTaskGid)!.push(sub);
+      }
+      for (const [gid, subs] of Array.from(byParent.entries())) {
+        await writeJson(fixturePath(root, "tasks", gid, "subtasks.json"), subs);
+      }
+      return subtasks;
+    },
+    async listStories(taskGids, onProgress) {
+      const stories = await inner.listStories(taskGids, onProgress);
+      const byTask = new Map<string, AsanaStory[]>();
+      for (const { story, taskGid } of stories) {
+        if (!byTask.has(taskGid)) byTask.set(taskGid, []);
+        byTask.get(taskGid)!.push(story);
+      }
+      for (const [gid, list] of Array.from(byTask.entries())) {
+        await writeJson(fixturePath(root, "tasks", gid, "stories.json"), list);
+      }
+      return stories;
+    },
+  };
+}
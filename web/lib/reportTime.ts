@@ -0,0 +1,61 @@
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+// Calendar days (week starts, due dates, "today") are those of one org-wide
+// timezone, whatever the timezone of the server. A day is stored as the
+// instant it starts in that timezone.
+
+function resolveTimezone(name: string | undefined): string {
+  const tz = name || "Asia/Bangkok";
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+  } catch {
+    throw new Error(`invalid REPORT_TIMEZONE '${tz}', expected an IANA name such as Asia/Bangkok`);
+  }
+  return tz;
+}
+
+export const REPORT_TIMEZONE = resolveTimezone(process.env.REPORT_TIMEZONE);
+
+// A dayjs in the report timezone, for formatting and calendar math
+export const reportDayjs = (value?: Date | string | number | null) => dayjs(value ?? undefined).tz(REPORT_TIMEZONE);
+
+export const formatReportDate = (value: Date | string | number, format: string) => reportDayjs(value).format(format);
+
+/**
+ * Start of a calendar day (month is 0-based) in the report timezone. Days out
+ * of range roll over like `new Date(y, m, d)`; with `strict` they give null
+ * instead, e.g. 31 June.
+ */
+export function reportDay(year: number, month: number, day: number, strict = false): Date | null {
+  const calendar = new Date(Date.UTC(year, month, day));
+  if (!isFinite(calendar.getTime())) return null;
+  if (strict && (calendar.getUTCFullYear() !== year || calendar.getUTCMonth() !== month || calendar.getUTCDate() !== day)) return null;
+  return dayjs.tz(calendar.toISOString().slice(0, 10), REPORT_TIMEZONE).toDate();
+}
+
+// Start of the report day containing `at` (default: now), e.g. the overdue
+// cutoff. An invalid input gives an invalid Date, as `new Date()` would.
+export function startOfReportDay(at: Date | string | number = new Date()): Date {
+  const d = reportDayjs(at);
+  return reportDay(d.year(), d.month(), d.date()) ?? new Date(NaN);
+}
+
+export function addReportDays(d: Date, days: number): Date {
+  const r = reportDayjs(d);
+  return reportDay(r.year(), r.month(), r.date() + days) ?? new Date(NaN);
+}
+
+// Asana date-only values ("2025-06-02"), or null when the text is not a valid date
+export function parseReportDate(value: string | null | undefined): Date | null {
+  const m = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!m) return null;
+  return reportDay(Number(m[1]), Number(m[2]) - 1, Number(m[3]), true);
+}
+
+// The report calendar day of an instant as YYYY-MM-DD, e.g. a bucketing key
+export const reportDateKey = (value: Date | string | number) => formatReportDate(value, "YYYY-MM-DD");
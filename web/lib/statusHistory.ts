@@ -0,0 +1,45 @@
+import { Prisma } from "@/generated/prisma";
+import prisma from "./prisma";
+
+export type StatusEvent = "created" | "assigned" | "rescheduled" | "completed" | "reopened";
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * Rebuild the status history of `subtaskGids` (every subtask when omitted)
+ * from the stored subtasks and their stories. Run after the stories are
+ * written; `db` lets a full sync do it inside its swap transaction.
+ */
+export async function rebuildStatusEvents(db: Db = prisma, subtaskGids?: string[]) {
+  if (subtaskGids && subtaskGids.length === 0) return { inserted: 0, deleted: 0 };
+  const onSubtask = subtaskGids ? Prisma.sql`AND st.gid = ANY(${subtaskGids})` : Prisma.empty;
+  const onStory = subtaskGids ? Prisma.sql`AND s.task_gid = ANY(${subtaskGids})` : Prisma.empty;
+
+  const deleted = subtaskGids
+    ? await db.subtask_status_events.deleteMany({ where: { subtask_gid: { in: subtaskGids } } })
+    : await db.subtask_status_events.deleteMany();
+
+  const inserted = await db.$executeRaw`
+    INSERT INTO subtask_status_events (subtask_gid, event, occurred_at, story_gid, detail)
+    SELECT st.gid, 'created', st.created_at, NULL, NULL
+      FROM subtasks st
+      WHERE st.created_at IS NOT NULL ${onSubtask}
+    UNION ALL
+    SELECT s.task_gid,
+           CASE s.resource_subtype
+             WHEN 'assigned' THEN 'assigned'
+             WHEN 'due_date_changed' THEN 'rescheduled'
+             WHEN 'marked_complete' THEN 'completed'
+             WHEN 'marked_incomplete' THEN 'reopened'
+           END,
+           s.created_at, s.gid, s.text
+      FROM task_stories s
+      WHERE s.resource_subtype IN ('assigned', 'due_date_changed', 'marked_complete', 'marked_incomplete') ${onStory}
+    UNION ALL
+    SELECT st.gid, 'completed', st.completed_at, NULL, NULL
+      FROM subtasks st
+      WHERE st.completed AND st.completed_at IS NOT NULL ${onSubtask}
+        AND NOT EXISTS (SELECT 1 FROM task_stories s WHERE s.task_gid = st.gid AND s.resource_subtype = 'marked_complete')`;
+
+  return { inserted, deleted: deleted.count };
+}
@@ -0,0 +1,83 @@
+import prisma from "./prisma";
+import type { AsanaSubtask } from "./taskSource";
+
+// Dependencies between subtasks. Asana lists them from both ends (a task's
+// `dependencies` and its `dependents`), so a link is found when either end is
+// read.
+
+export type DependencyRow = { subtask_gid: string; blocker_gid: string };
+
+// Longest blocking chain followed from one subtask
+const MAX_CHAIN_LENGTH = 5;
+
+export function buildDependencyRows(subtasks: AsanaSubtask[]): DependencyRow[] {
+  const rows = new Map<string, DependencyRow>();
+  const add = (subtask_gid: string, blocker_gid: string) => {
+    if (subtask_gid !== blocker_gid) rows.set(`${subtask_gid}:${blocker_gid}`, { subtask_gid, blocker_gid });
+  };
+  for (const st of subtasks) {
+    for (const d of st.dependencies ?? []) add(st.gid, d.gid);
+    for (const d of st.dependents ?? []) add(d.gid, st.gid);
+  }
+  return Array.from(rows.values());
+}
+
+// Links whose two ends are both in `subtaskGids`
+export const linksBetween = (rows: DependencyRow[], subtaskGids: Set<string>) =>
+  rows.filter((r) => subtaskGids.has(r.subtask_gid) && subtaskGids.has(r.blocker_gid));
+
+/**
+ * Replace every link touching `subtaskGids` with `rows`. Used by the
+ * incremental sync and webhooks; links to subtasks that are not stored are
+ * dropped.
+ */
+export async function replaceSubtaskDependencies(subtaskGids: string[], rows: DependencyRow[]) {
+  if (subtaskGids.length === 0) return { inserted: 0, deleted: 0 };
+  const ends = Array.from(new Set(rows.flatMap((r) => [r.subtask_gid, r.blocker_gid])));
+  const stored = await prisma.subtasks.findMany({ where: { gid: { in: ends } }, select: { gid: true } });
+  const kept = linksBetween(rows, new Set(stored.map((s) => s.gid)));
+  const [deleted, inserted] = await prisma.$transaction([
+    prisma.subtask_dependencies.deleteMany({ where: { OR: [{ subtask_gid: { in: subtaskGids } }, { blocker_gid: { in: subtaskGids } }] } }),
+    prisma.subtask_dependencies.createMany({ data: kept, skipDuplicates: true }),
+  ]);
+  return { inserted: inserted.count, deleted: deleted.count };
+}
+
+export type BlockingStep = { gid: string; name: string };
+
+/**
+ * Open blockers of each of `subtaskGids`, followed through their own open
+ * blockers. One chain per path, nearest blocker first; a subtask without open
+ * blockers has no entry.
+ */
+export async function loadBlockingChains(subtaskGids: string[]): Promise<Map<string, BlockingStep[][]>> {
+  const chains = new Map<string, BlockingStep[][]>();
+  if (subtaskGids.length === 0) return chains;
+  const paths = await prisma.$queryRaw<{ root: string; path: string[] }[]>`
+    WITH RECURSIVE chain AS (
+      SELECT d.subtask_gid AS root, d.blocker_gid AS tip, ARRAY[d.blocker_gid] AS path
+      FROM subtask_dependencies d JOIN subtasks b ON b.gid = d.blocker_gid
+      WHERE d.subtask_gid = ANY(${subtaskGids}) AND b.completed = false
+      UNION ALL
+      SELECT c.root, d.blocker_gid, c.path || d.blocker_gid
+      FROM chain c
+      JOIN subtask_dependencies d ON d.subtask_gid = c.tip
+      JOIN subtasks b ON b.gid = d.blocker_gid
+      WHERE b.completed = false AND d.blocker_gid <> c.root AND NOT d.blocker_gid = ANY(c.path)
+        AND cardinality(c.path) < ${MAX_CHAIN_LENGTH}
+    )
+    SELECT root, path FROM chain`;
+  if (paths.length === 0) return chains;
+
+  const names = await prisma.subtasks.findMany({ where: { gid: { in: Array.from(new Set(paths.flatMap((p) => p.path))) } }, select: { gid: true, name: true } });
+  const nameOf = new Map(names.map((n) => [n.gid, n.name ?? n.gid]));
+  // Keep the longest paths only: a path that another one extends is part of it
+  const isPrefix = (a: string[], b: string[]) => a.length < b.length && a.every((gid, i) => b[i] === gid);
+  for (const p of paths) {
+    const siblings = paths.filter((o) => o.root === p.root);
+    if (siblings.some((o) => isPrefix(p.path, o.path))) continue;
+    if (!chains.has(p.root)) chains.set(p.root, []);
+    chains.get(p.root)!.push(p.path.map((gid) => ({ gid, name: nameOf.get(gid) ?? gid })));
+  }
+  return chains;
+}
@@ -0,0 +1,64 @@
+import prisma from "./prisma";
+import type { ProgressListener, SubtaskWithParent, TaskSource } from "./taskSource";
+
+// Subtasks can have subtasks of their own. Every level is stored in
+// `subtasks`: parent_task_gid is always the weekly task at the top, so week,
+// project and due date lookups work at any depth, while parent_subtask_gid
+// links a nested subtask to the subtask directly above it (null at depth 1).
+
+export type SubtaskNode = SubtaskWithParent & { parentSubtaskGid: string | null; depth: number };
+
+/**
+ * How reports count nested work. `rollup` counts the subtasks directly under
+ * a weekly task; their own subtasks are part of them. `leaf` counts the work
+ * items nothing is broken down from, at any depth.
+ */
+export type SubtaskCounting = "rollup" | "leaf";
+
+export const SUBTASK_COUNTING: SubtaskCounting = process.env.REPORT_SUBTASK_COUNTING === "leaf" ? "leaf" : "rollup";
+
+// Subtask filter selecting the work items reports count
+export function countedSubtaskWhere(counting: SubtaskCounting = SUBTASK_COUNTING) {
+  return counting === "leaf" ? { child_subtasks: { none: {} } } : { depth: 1 };
+}
+
+/**
+ * Subtasks of `taskGids` and, level by level, their subtasks down to
+ * `maxDepth` (1 reads direct subtasks only). Parents come before their
+ * children. Subtasks Asana reports as having none are not looked up.
+ */
+export async function fetchSubtaskTree(source: TaskSource, taskGids: string[], maxDepth: number, onProgress?: ProgressListener): Promise<SubtaskNode[]> {
+  const nodes: SubtaskNode[] = (await source.listSubtasks(taskGids, onProgress)).map((s) => ({ ...s, parentSubtaskGid: null, depth: 1 }));
+  const rootOf = new Map(nodes.map((n) => [n.sub.gid, n.parentTaskGid]));
+  let level = nodes;
+  for (let depth = 2; depth <= maxDepth && level.length > 0; depth++) {
+    const parents = level.filter((n) => n.sub.num_subtasks !== 0).map((n) => n.sub.gid);
+    if (parents.length === 0) break;
+    const children = await source.listSubtasks(parents, onProgress);
+    level = [];
+    for (const { sub, parentTaskGid: parentSubtaskGid } of children) {
+      // A subtask listed twice (Asana allows one parent, but be safe) keeps its first place
+      if (rootOf.has(sub.gid)) continue;
+      const root = rootOf.get(parentSubtaskGid)!;
+      rootOf.set(sub.gid, root);
+      level.push({ sub, parentTaskGid: root, parentSubtaskGid, depth });
+    }
+    nodes.push(...level);
+    console.log(`[asana] fetched ${level.length} subtasks at depth ${depth}`);
+  }
+  return nodes;
+}
+
+// Subtasks among `gids` and every subtask below them or below tasks among
+// `gids`, e.g. to delete a subtask together with its children
+export async function subtaskGidsUnder(gids: string[]): Promise<string[]> {
+  if (gids.length === 0) return [];
+  const rows = await prisma.$queryRaw<{ gid: string }[]>`
+    WITH RECURSIVE tree AS (
+      SELECT gid FROM subtasks WHERE gid = ANY(${gids}) OR parent_task_gid = ANY(${gids})
+      UNION
+      SELECT st.gid FROM subtasks st JOIN tree ON st.parent_subtask_gid = tree.gid
+    )
+    SELECT gid FROM tree`;
+  return rows.map((r) => r.gid);
+}
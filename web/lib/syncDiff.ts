@@ -0,0 +1,109 @@
+import prisma from "./prisma";
+import type { MappingCandidate } from "./assigneeMapping";
+import type { StagedRows } from "./syncStaging";
+
+// What a full reload would change, worked out by a dry-run sync (see
+// startDryRun in asana.ts) from the rows it fetched and the live tables.
+// Nothing is written.
+
+export type DiffValue = string | number | boolean | null;
+export type FieldChange = { field: string; before: DiffValue; after: DiffValue };
+export type RowRef = { gid: string; name: string | null };
+export type RowDiff = { added: RowRef[]; removed: RowRef[]; changed: (RowRef & { fields: FieldChange[] })[] };
+
+export type AssigneeRemap = {
+  email: string;
+  asanaGid: string;
+  asanaName: string | null;
+  asanaEmail: string | null;
+  source: string;
+  kind: string;
+  currentGid: string | null;
+  note: string | null;
+};
+
+export type SyncDiff = {
+  tasks: RowDiff;
+  subtasks: RowDiff;
+  assigneeRemaps: AssigneeRemap[];
+  weekParseFailures: RowRef[];
+};
+
+type DiffRow = RowRef & Record<string, unknown>;
+
+const TASK_FIELDS = ["name", "section_gid", "completed", "due_on", "project", "week_startdate", "week_enddate", "assignee_gid"];
+// `followers` is every follower gid of the subtask, mas_user or external, sorted and joined
+const SUBTASK_FIELDS = ["name", "parent_task_gid", "parent_subtask_gid", "depth", "assignee_gid", "external_assignee_gid", "completed", "completed_at", "due_on", "followers"];
+
+const diffValue = (v: unknown): DiffValue => (v instanceof Date ? v.toISOString() : ((v ?? null) as DiffValue));
+
+const ref = ({ gid, name }: RowRef): RowRef => ({ gid, name });
+
+// Rows only in `after` are added, rows only in `before` removed, and rows in
+// both are changed when one of `fields` differs
+export function diffRows(before: DiffRow[], after: DiffRow[], fields: string[]): RowDiff {
+  const stored = new Map(before.map((r) => [r.gid, r]));
+  const fetched = new Set(after.map((r) => r.gid));
+  const diff: RowDiff = { added: [], removed: before.filter((r) => !fetched.has(r.gid)).map(ref), changed: [] };
+  for (const row of after) {
+    const prev = stored.get(row.gid);
+    if (!prev) {
+      diff.added.push(ref(row));
+      continue;
+    }
+    const changes: FieldChange[] = [];
+    for (const field of fields) {
+      const a = diffValue(prev[field]);
+      const b = diffValue(row[field]);
+      if (a !== b) changes.push({ field, before: a, after: b });
+    }
+    if (changes.length > 0) diff.changed.push({ ...ref(row), fields: changes });
+  }
+  return diff;
+}
+
+const followerList = (links: { follower_gid: string }[]) => links.map((l) => l.follower_gid).sort().join(",") || null;
+
+/**
+ * Compare the rows a full reload fetched with the live tables. `rows` are
+ * built exactly as the staging tables would be filled.
+ */
+export async function diffAgainstLive(
+  rows: Pick<StagedRows, "tasks" | "subtasks" | "followers" | "externalFollowers">,
+  candidates: MappingCandidate[],
+  parseFailures: { gid: string; name?: string }[],
+): Promise<SyncDiff> {
+  const [tasks, subtasks] = await Promise.all([
+    prisma.tasks.findMany({ select: { gid: true, name: true, section_gid: true, completed: true, due_on: true, project: true, week_startdate: true, week_enddate: true, assignee_gid: true } }),
+    prisma.subtasks.findMany({
+      select: {
+        gid: true, name: true, parent_task_gid: true, parent_subtask_gid: true, depth: true, assignee_gid: true, external_assignee_gid: true,
+        completed: true, completed_at: true, due_on: true,
+        task_followers: { select: { follower_gid: true } },
+        task_external_followers: { select: { follower_gid: true } },
+      },
+    }),
+  ]);
+
+  const fetchedFollowers = new Map<string, { follower_gid: string }[]>();
+  for (const f of [...rows.followers, ...rows.externalFollowers]) fetchedFollowers.set(f.task_gid, [...(fetchedFollowers.get(f.task_gid) ?? []), f]);
+
+  const storedSubtasks = subtasks.map(({ task_followers, task_external_followers, ...st }) => ({ ...st, followers: followerList([...task_followers, ...task_external_followers]) }));
+  const fetchedSubtasks = rows.subtasks.map((st) => ({ ...st, followers: followerList(fetchedFollowers.get(st.gid) ?? []) }));
+
+  return {
+    tasks: diffRows(tasks, rows.tasks, TASK_FIELDS),
+    subtasks: diffRows(storedSubtasks, fetchedSubtasks, SUBTASK_FIELDS),
+    assigneeRemaps: candidates.map((c) => ({
+      email: c.email,
+      asanaGid: c.user.gid,
+      asanaName: c.user.name ?? null,
+      asanaEmail: c.user.email ?? null,
+      source: c.source,
+      kind: c.kind,
+      currentGid: c.currentGid,
+      note: c.note,
+    })),
+    weekParseFailures: parseFailures.map((p) => ({ gid: p.gid, name: p.name ?? null })),
+  };
+}
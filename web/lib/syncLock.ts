@@ -0,0 +1,156 @@
+import { randomUUID } from "crypto";
+import prisma from "./prisma";
+import { abandonSyncRun } from "./syncRuns";
+
+// Only one Asana sync may write to the synced tables at a time. The lock is a
+// lease row in `sync_locks`: the holder renews `expires_at` while it runs, so a
+// crashed process stops renewing and the next sync can take the lock over once
+// the lease has expired.
+const LOCK_NAME = "asana_sync";
+
+// SYNC_LOCK_TTL_MS controls how long a lease lives without a heartbeat. Default 5 minutes.
+const SYNC_LOCK_TTL_MS = (() => {
+  const raw = Number(process.env.SYNC_LOCK_TTL_MS ?? 5 * 60 * 1000);
+  if (!Number.isFinite(raw) || raw <= 0) return 5 * 60 * 1000;
+  return Math.floor(raw);
+})();
+
+export class SyncInProgressError extends Error {
+  readonly runId: number | null;
+  readonly expiresAt: Date;
+
+  constructor(runId: number | null, expiresAt: Date) {
+    super(`a sync is already running${runId != null ? ` (run ${runId})` : ""}`);
+    this.name = "SyncInProgressError";
+    this.runId = runId;
+    this.expiresAt = expiresAt;
+  }
+}
+
+/**
+ * The lease of a running sync was taken over by another sync, e.g. after its
+ * heartbeat failed for longer than SYNC_LOCK_TTL_MS. Writing on would
+ * interleave with the new holder, so the run must stop.
+ */
+export class SyncLockLostError extends Error {
+  constructor() {
+    super("sync lock lost: the lease was taken over by another sync");
+    this.name = "SyncLockLostError";
+  }
+}
+
+/**
+ * `signal` aborts, with SyncLockLostError as its reason, once the lease is
+ * found taken over. A sync calls `assertHeld` before each write (cheap, no
+ * query) and `verify` before the writes that must not happen twice.
+ */
+export type SyncLockHandle = {
+  token: string;
+  signal: AbortSignal;
+  assertHeld(): void;
+  verify(): Promise<void>;
+  attachRun(runId: number): Promise<void>;
+  release(): Promise<void>;
+};
+
+/**
+ * Take the sync lock or throw SyncInProgressError with the holder's run id.
+ * An expired lease is taken over and the run that held it is marked failed.
+ */
+export async function acquireSyncLock(): Promise<SyncLockHandle> {
+  const token = randomUUID();
+  const previous = await prisma.sync_locks.findUnique({ where: { name: LOCK_NAME } });
+
+  // Insert the lease, or replace it only when the current one has expired.
+  // Postgres evaluates the WHERE atomically so two callers cannot both win.
+  const acquired = await prisma.$queryRaw<{ token: string }[]>`
+    INSERT INTO sync_locks (name, token, run_id, acquired_at, expires_at)
+    VALUES (${LOCK_NAME}, ${token}, NULL, now(), now() + (${SYNC_LOCK_TTL_MS}::int * interval '1 millisecond'))
+    ON CONFLICT (name) DO UPDATE
+      SET token = EXCLUDED.token, run_id = NULL, acquired_at = EXCLUDED.acquired_at, expires_at = EXCLUDED.expires_at
+      WHERE sync_locks.expires_at < now()
+    RETURNING token`;
+
+  if (acquired.length === 0) {
+    const holder = await prisma.sync_locks.findUnique({ where: { name: LOCK_NAME } });
+    throw new SyncInProgressError(holder?.run_id ?? null, holder?.expires_at ?? new Date());
+  }
+
+  if (previous && previous.expires_at < new Date() && previous.run_id != null) {
+    console.log(`[sync-lock] recovered stale lock held by run ${previous.run_id}`);
+    await abandonSyncRun(previous.run_id, "sync lock expired without a heartbeat; the run is presumed crashed");
+  }
+
+  const lost = new AbortController();
+  const markLost = () => {
+    if (lost.signal.aborted) return;
+    console.log('[sync-lock] the lock was taken over by another sync; stopping this run');
+    clearInterval(heartbeat);
+    lost.abort(new SyncLockLostError());
+  };
+
+  // Renew the lease well before it expires. unref() keeps the timer from
+  // holding the process open.
+  const heartbeat = setInterval(() => {
+    prisma.$executeRaw`
+      UPDATE sync_locks SET expires_at = now() + (${SYNC_LOCK_TTL_MS}::int * interval '1 millisecond')
+      WHERE name = ${LOCK_NAME} AND token = ${token}`
+      .then((count) => {
+        if (count === 0) markLost();
+      })
+      .catch((e) => console.log(`[sync-lock] heartbeat failed: ${e instanceof Error ? e.message : String(e)}`));
+  }, Math.max(1000, Math.floor(SYNC_LOCK_TTL_MS / 3)));
+  heartbeat.unref?.();
+
+  const assertHeld = () => {
+    if (lost.signal.aborted) throw lost.signal.reason;
+  };
+
+  return {
+    token,
+    signal: lost.signal,
+    assertHeld,
+    async verify() {
+      assertHeld();
+      const row = await prisma.sync_locks.findUnique({ where: { name: LOCK_NAME }, select: { token: true } });
+      if (row?.token !== token) markLost();
+      assertHeld();
+    },
+    async attachRun(runId: number) {
+      await prisma.sync_locks.updateMany({ where: { name: LOCK_NAME, token }, data: { run_id: runId } });
+    },
+    async release() {
+      clearInterval(heartbeat);
+      await prisma.sync_locks.deleteMany({ where: { name: LOCK_NAME, token } });
+    },
+  };
+}
+
+export type SyncLockState = {
+  held: boolean;
+  runId: number | null;
+  acquiredAt: Date | null;
+  expiresAt: Date | null;
+  // True when the lease expired without being released, i.e. the holder crashed
+  stale: boolean;
+};
+
+export async function getSyncLockState(): Promise<SyncLockState> {
+  const row = await prisma.sync_locks.findUnique({ where: { name: LOCK_NAME } });
+  if (!row) return { held: false, runId: null, acquiredAt: null, expiresAt: null, stale: false };
+  return { held: true, runId: row.run_id, acquiredAt: row.acquired_at, expiresAt: row.expires_at, stale: row.expires_at < new Date() };
+}
+
+/**
+ * Forcefully release the lock, e.g. after an admin confirmed the holder is
+ * gone. The holder's run is marked failed so the history stays accurate.
+ */
+export async function forceReleaseSyncLock(): Promise<SyncLockState> {
+  const state = await getSyncLockState();
+  if (!state.held) return state;
+  await prisma.sync_locks.deleteMany({ where: { name: LOCK_NAME } });
+  if (state.runId != null) {
+    await abandonSyncRun(state.runId, "sync lock was released by an administrator");
+  }
+  return state;
+}
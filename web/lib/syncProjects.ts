@@ -0,0 +1,50 @@
+import prisma from "./prisma";
+
+const ASANA_PROJECT_ID = process.env.ASANA_PROJECT_ID as string | undefined;
+
+export type SectionMapping = { section_gid: string; deptid: string | null; excluded: boolean };
+
+export type SyncProject = {
+  gid: string;
+  name: string | null;
+  // Keyed by section gid. Sections without an entry are synced unmapped.
+  sections: Map<string, SectionMapping>;
+};
+
+/**
+ * Projects to sync, in a stable order. The managed `sync_projects` list wins;
+ * when it has no enabled project the single ASANA_PROJECT_ID env var is used so
+ * existing deployments keep working without configuration.
+ */
+export async function getSyncProjects(): Promise<SyncProject[]> {
+  const rows = await prisma.sync_projects.findMany({
+    where: { enabled: true },
+    include: { sync_project_sections: true },
+    orderBy: { created_at: "asc" },
+  });
+  if (rows.length > 0) {
+    return rows.map((p) => ({
+      gid: p.gid,
+      name: p.name,
+      sections: new Map(p.sync_project_sections.map((s) => [s.section_gid, { section_gid: s.section_gid, deptid: s.deptid, excluded: s.excluded }])),
+    }));
+  }
+  if (ASANA_PROJECT_ID) return [{ gid: ASANA_PROJECT_ID, name: null, sections: new Map() }];
+  return [];
+}
+
+export async function listProjects() {
+  return prisma.sync_projects.findMany({
+    include: { _count: { select: { sync_project_sections: true } } },
+    orderBy: { created_at: "asc" },
+  });
+}
+
+export async function saveSectionMappings(projectGid: string, mappings: SectionMapping[]) {
+  return prisma.$transaction([
+    prisma.sync_project_sections.deleteMany({ where: { project_gid: projectGid } }),
+    prisma.sync_project_sections.createMany({
+      data: mappings.map((m) => ({ project_gid: projectGid, section_gid: m.section_gid, deptid: m.deptid, excluded: m.excluded })),
+    }),
+  ]);
+}
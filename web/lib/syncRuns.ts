@@ -0,0 +1,159 @@
+import prisma from "./prisma";
+import type { Prisma } from "@/generated/prisma";
+
+// Who started a sync run. `cron` is the scheduled container job, `manual` is
+// the admin sync console and `api` is any other caller of POST /api/sync.
+export type SyncTrigger = "cron" | "manual" | "api";
+
+export const SYNC_TRIGGERS: readonly SyncTrigger[] = ["cron", "manual", "api"];
+
+// `aborted` runs were stopped on purpose, e.g. by the Asana circuit breaker;
+// `cancelled` runs were stopped on request (see requestSyncCancel); `failed`
+// runs hit an unexpected error.
+export type SyncRunStatus = "running" | "success" | "failed" | "aborted" | "cancelled";
+
+/**
+ * Where a running sync is. `stage` is what it is doing: "sections" and
+ * "tasks" count projects read, "subtasks" and "stories" count parent tasks
+ * whose collection was fetched, and "insert <table>" counts rows written to a
+ * staging table. `retried` counts task fetches that needed another attempt.
+ */
+export type SyncProgress = { stage: string; done: number; total: number; failed: number; retried: number };
+
+export type SyncRunSummary = {
+  id: number;
+  trigger: string;
+  triggered_by: string | null;
+  mode: string;
+  status: string;
+  started_at: Date;
+  finished_at: Date | null;
+  duration_ms: number | null;
+  progress: Prisma.JsonValue | null;
+  error: string | null;
+};
+
+// `triggeredBy` is the authenticated principal, e.g. "service" or "admin:<email>".
+export async function startSyncRun(params: { trigger: SyncTrigger; triggeredBy?: string | null; mode: string; startedAt?: Date }) {
+  return prisma.sync_runs.create({
+    data: {
+      trigger: params.trigger,
+      triggered_by: params.triggeredBy ?? null,
+      mode: params.mode,
+      status: "running",
+      started_at: params.startedAt ?? new Date(),
+    },
+  });
+}
+
+// Mark a run as finished. `counts` is the per-entity summary returned by the
+// sync, `parseFailures` the full list of tasks whose week could not be parsed
+// and `result` what a dry run found.
+export async function completeSyncRun(
+  id: number,
+  params: { mode: string; counts: Prisma.InputJsonValue; parseFailures: Prisma.InputJsonValue[]; requestStats?: Prisma.InputJsonValue; result?: Prisma.InputJsonValue }
+) {
+  const run = await prisma.sync_runs.findUniqueOrThrow({ where: { id }, select: { started_at: true } });
+  const finishedAt = new Date();
+  return prisma.sync_runs.update({
+    where: { id },
+    data: {
+      status: "success",
+      mode: params.mode,
+      finished_at: finishedAt,
+      duration_ms: finishedAt.getTime() - run.started_at.getTime(),
+      counts: params.counts,
+      parse_failures: params.parseFailures,
+      request_stats: params.requestStats,
+      result: params.result,
+    },
+  });
+}
+
+export async function failSyncRun(
+  id: number,
+  error: unknown,
+  params: { status?: Extract<SyncRunStatus, "failed" | "aborted" | "cancelled">; requestStats?: Prisma.InputJsonValue } = {}
+) {
+  const message = error instanceof Error ? error.message : String(error);
+  const run = await prisma.sync_runs.findUnique({ where: { id }, select: { started_at: true } });
+  const finishedAt = new Date();
+  return prisma.sync_runs.update({
+    where: { id },
+    data: {
+      status: params.status ?? "failed",
+      finished_at: finishedAt,
+      duration_ms: run ? finishedAt.getTime() - run.started_at.getTime() : null,
+      request_stats: params.requestStats,
+      error: message,
+    },
+  });
+}
+
+// Record the latest progress of a running run. Finished runs are left untouched.
+export async function reportSyncProgress(id: number, progress: SyncProgress) {
+  return prisma.sync_runs.updateMany({
+    where: { id, status: "running" },
+    data: { progress },
+  });
+}
+
+export class SyncCancelledError extends Error {
+  readonly runId: number;
+
+  constructor(runId: number, stage: string) {
+    super(`sync run ${runId} was cancelled before ${stage}`);
+    this.name = "SyncCancelledError";
+    this.runId = runId;
+  }
+}
+
+/**
+ * Ask a running run to stop. The request is stored on the run, so it reaches
+ * the sync whichever process runs it; the sync stops at its next checkpoint
+ * between stages (see isSyncCancelRequested). Returns the run's status, or
+ * null when there is no such run.
+ */
+export async function requestSyncCancel(id: number, principal: string) {
+  // The first request is kept when several arrive
+  await prisma.sync_runs.updateMany({
+    where: { id, status: "running", cancel_requested_at: null },
+    data: { cancel_requested_at: new Date(), cancel_requested_by: principal },
+  });
+  const run = await prisma.sync_runs.findUnique({ where: { id }, select: { status: true, cancel_requested_at: true } });
+  if (!run) return null;
+  return { status: run.status, cancelRequestedAt: run.cancel_requested_at };
+}
+
+export async function isSyncCancelRequested(id: number) {
+  const run = await prisma.sync_runs.findUnique({ where: { id }, select: { cancel_requested_at: true } });
+  return run?.cancel_requested_at != null;
+}
+
+// Close a run whose process went away without recording an outcome. Runs that
+// already finished are left untouched.
+export async function abandonSyncRun(id: number, reason: string) {
+  const finishedAt = new Date();
+  return prisma.sync_runs.updateMany({
+    where: { id, status: "running" },
+    data: { status: "failed", finished_at: finishedAt, error: reason },
+  });
+}
+
+export async function listSyncRuns(opts: { page?: number; limit?: number } = {}) {
+  const { page = 1, limit = 20 } = opts;
+  const [runs, total] = await Promise.all([
+    prisma.sync_runs.findMany({
+      select: { id: true, trigger: true, triggered_by: true, mode: true, status: true, started_at: true, finished_at: true, duration_ms: true, progress: true, error: true },
+      orderBy: { started_at: "desc" },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.sync_runs.count(),
+  ]);
+  return { runs: runs as SyncRunSummary[], total };
+}
+
+export async function getSyncRun(id: number) {
+  return prisma.sync_runs.findUnique({ where: { id } });
+}
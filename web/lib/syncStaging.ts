@@ -0,0 +1,255 @@
+import prisma from "./prisma";
+import type { CustomFieldValueRow } from "./customFields";
+import type { StoryRow } from "./taskStories";
+import type { TaskSectionRow, TaskTagRow } from "./taskMemberships";
+import type { DependencyRow } from "./subtaskDependencies";
+import type { ExternalFollowerRow } from "./externalUsers";
+import { rebuildStatusEvents } from "./statusHistory";
+import type { ProgressListener } from "./taskSource";
+
+// Full syncs never write to the live tables directly. Rows are loaded into the
+// *_staging tables, checked, and then copied over in a single transaction so
+// readers see either the previous dataset or the new one, never a mix.
+
+export type StagedRows = {
+  sections: { gid: string; name: string; project_gid: string | null; deptid: string | null }[];
+  tasks: {
+    gid: string;
+    name: string | null;
+    section_gid: string | null;
+    completed: boolean | null;
+    due_on: Date | null;
+    created_at: Date | null;
+    project: string;
+    week_startdate: Date;
+    week_enddate: Date | null;
+    assignee_gid: string | null;
+  }[];
+  subtasks: {
+    gid: string;
+    name: string | null;
+    parent_task_gid: string;
+    assignee_gid: string | null;
+    completed: boolean | null;
+    created_at: Date | null;
+    completed_at: Date | null;
+    due_on: Date | null;
+    parent_subtask_gid: string | null;
+    depth: number;
+    external_assignee_gid: string | null;
+  }[];
+  followers: { task_gid: string; follower_gid: string }[];
+  customFields: CustomFieldValueRow[];
+  stories: StoryRow[];
+  taskTags: TaskTagRow[];
+  taskSections: TaskSectionRow[];
+  dependencies: DependencyRow[];
+  externalFollowers: ExternalFollowerRow[];
+};
+
+export class StagingValidationError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`staged data failed validation: ${problems.join("; ")}`);
+    this.name = "StagingValidationError";
+    this.problems = problems;
+  }
+}
+
+// Swapping copies every row, which can take a while on large projects.
+const SWAP_TIMEOUT_MS = 5 * 60 * 1000;
+
+export async function clearStaging() {
+  await prisma.$transaction([
+    prisma.custom_field_values_staging.deleteMany(),
+    prisma.task_stories_staging.deleteMany(),
+    prisma.task_followers_staging.deleteMany(),
+    prisma.task_external_followers_staging.deleteMany(),
+    prisma.task_tags_staging.deleteMany(),
+    prisma.task_sections_staging.deleteMany(),
+    prisma.subtask_dependencies_staging.deleteMany(),
+    prisma.subtasks_staging.deleteMany(),
+    prisma.tasks_staging.deleteMany(),
+    prisma.sections_staging.deleteMany(),
+  ]);
+}
+
+// Bulk insert rows in chunks to avoid large single queries. `onProgress`
+// hears "insert <label>" with the rows written so far after every chunk.
+export async function insertInChunks<T>(label: string, rows: T[], modelCreateMany: (opts: { data: T[]; skipDuplicates?: boolean }) => Promise<unknown>, onProgress?: ProgressListener) {
+  const chunkSize = 500;
+  for (let i = 0; i < rows.length; i += chunkSize) {
+    const chunk = rows.slice(i, i + chunkSize);
+    console.log(`[sync] inserting ${label} chunk ${i}-${i + chunk.length}`);
+    await modelCreateMany({ data: chunk, skipDuplicates: true });
+    onProgress?.({ stage: `insert ${label}`, done: i + chunk.length, total: rows.length, failed: 0, retried: 0 });
+  }
+}
+
+export async function stageRows(rows: StagedRows, onProgress?: ProgressListener) {
+  await clearStaging();
+  await insertInChunks("sections", rows.sections, prisma.sections_staging.createMany.bind(prisma.sections_staging), onProgress);
+  await insertInChunks("tasks", rows.tasks, prisma.tasks_staging.createMany.bind(prisma.tasks_staging), onProgress);
+  await insertInChunks("subtasks", rows.subtasks, prisma.subtasks_staging.createMany.bind(prisma.subtasks_staging), onProgress);
+  await insertInChunks("followers", rows.followers, prisma.task_followers_staging.createMany.bind(prisma.task_followers_staging), onProgress);
+  await insertInChunks("external followers", rows.externalFollowers, prisma.task_external_followers_staging.createMany.bind(prisma.task_external_followers_staging), onProgress);
+  await insertInChunks("custom field values", rows.customFields, prisma.custom_field_values_staging.createMany.bind(prisma.custom_field_values_staging), onProgress);
+  await insertInChunks("stories", rows.stories, prisma.task_stories_staging.createMany.bind(prisma.task_stories_staging), onProgress);
+  await insertInChunks("task tags", rows.taskTags, prisma.task_tags_staging.createMany.bind(prisma.task_tags_staging), onProgress);
+  await insertInChunks("task sections", rows.taskSections, prisma.task_sections_staging.createMany.bind(prisma.task_sections_staging), onProgress);
+  await insertInChunks("subtask dependencies", rows.dependencies, prisma.subtask_dependencies_staging.createMany.bind(prisma.subtask_dependencies_staging), onProgress);
+}
+
+const countDistinct = (keys: string[]) => new Set(keys).size;
+
+/**
+ * Check the staged tables against what was fetched and against the foreign
+ * keys of the live tables. Throws StagingValidationError listing every problem.
+ */
+export async function validateStaging(rows: StagedRows) {
+  const problems: string[] = [];
+
+  const [sections, tasks, subtasks, followers, customFields, stories, taskTags, taskSections, dependencies, externalFollowers] = await Promise.all([
+    prisma.sections_staging.count(),
+    prisma.tasks_staging.count(),
+    prisma.subtasks_staging.count(),
+    prisma.task_followers_staging.count(),
+    prisma.custom_field_values_staging.count(),
+    prisma.task_stories_staging.count(),
+    prisma.task_tags_staging.count(),
+    prisma.task_sections_staging.count(),
+    prisma.subtask_dependencies_staging.count(),
+    prisma.task_external_followers_staging.count(),
+  ]);
+  const expected = {
+    sections: countDistinct(rows.sections.map((r) => r.gid)),
+    tasks: countDistinct(rows.tasks.map((r) => r.gid)),
+    subtasks: countDistinct(rows.subtasks.map((r) => r.gid)),
+    followers: countDistinct(rows.followers.map((r) => `${r.task_gid}:${r.follower_gid}`)),
+    customFields: countDistinct(rows.customFields.map((r) => `${r.resource_gid}:${r.field_gid}`)),
+    stories: countDistinct(rows.stories.map((r) => r.gid)),
+    taskTags: countDistinct(rows.taskTags.map((r) => `${r.task_gid}:${r.tag_gid}`)),
+    taskSections: countDistinct(rows.taskSections.map((r) => `${r.task_gid}:${r.section_gid}`)),
+    dependencies: countDistinct(rows.dependencies.map((r) => `${r.subtask_gid}:${r.blocker_gid}`)),
+    externalFollowers: countDistinct(rows.externalFollowers.map((r) => `${r.task_gid}:${r.follower_gid}`)),
+  };
+  const actual = { sections, tasks, subtasks, followers, customFields, stories, taskTags, taskSections, dependencies, externalFollowers };
+  for (const key of Object.keys(expected) as (keyof typeof expected)[]) {
+    if (expected[key] !== actual[key]) problems.push(`${key}: staged ${actual[key]} rows, expected ${expected[key]}`);
+  }
+
+  const [orphans] = await prisma.$queryRaw<{ tasks_section: bigint; subtasks_parent: bigint; subtasks_assignee: bigint; followers_task: bigint; followers_assignee: bigint; custom_field_resource: bigint; stories_task: bigint; tasks_assignee: bigint; subtasks_parent_subtask: bigint; tags_task: bigint; tags_tag: bigint; sections_task: bigint; dependencies_subtask: bigint; subtasks_external_assignee: bigint; external_followers_task: bigint; external_followers_user: bigint }[]>`
+    SELECT
+      (SELECT count(*) FROM tasks_staging t
+        WHERE t.section_gid IS NOT NULL AND NOT EXISTS (SELECT 1 FROM sections_staging s WHERE s.gid = t.section_gid)) AS tasks_section,
+      (SELECT count(*) FROM subtasks_staging st
+        WHERE st.parent_task_gid IS NOT NULL AND NOT EXISTS (SELECT 1 FROM tasks_staging t WHERE t.gid = st.parent_task_gid)) AS subtasks_parent,
+      (SELECT count(*) FROM subtasks_staging st
+        WHERE st.assignee_gid IS NOT NULL AND NOT EXISTS (SELECT 1 FROM assignees a WHERE a.assignee_gid = st.assignee_gid)) AS subtasks_assignee,
+      (SELECT count(*) FROM task_followers_staging f
+        WHERE NOT EXISTS (SELECT 1 FROM subtasks_staging st WHERE st.gid = f.task_gid)) AS followers_task,
+      (SELECT count(*) FROM task_followers_staging f
+        WHERE NOT EXISTS (SELECT 1 FROM assignees a WHERE a.assignee_gid = f.follower_gid)) AS followers_assignee,
+      (SELECT count(*) FROM custom_field_values_staging v
+        WHERE NOT EXISTS (SELECT 1 FROM tasks_staging t WHERE t.gid = v.resource_gid)
+          AND NOT EXISTS (SELECT 1 FROM subtasks_staging st WHERE st.gid = v.resource_gid)) AS custom_field_resource,
+      (SELECT count(*) FROM task_stories_staging s
+        WHERE NOT EXISTS (SELECT 1 FROM subtasks_staging st WHERE st.gid = s.task_gid)) AS stories_task,
+      (SELECT count(*) FROM tasks_staging t
+        WHERE t.assignee_gid IS NOT NULL AND NOT EXISTS (SELECT 1 FROM assignees a WHERE a.assignee_gid = t.assignee_gid)) AS tasks_assignee,
+      (SELECT count(*) FROM subtasks_staging st
+        WHERE st.parent_subtask_gid IS NOT NULL AND NOT EXISTS (SELECT 1 FROM subtasks_staging p WHERE p.gid = st.parent_subtask_gid)) AS subtasks_parent_subtask,
+      (SELECT count(*) FROM task_tags_staging tt
+        WHERE NOT EXISTS (SELECT 1 FROM tasks_staging t WHERE t.gid = tt.task_gid)) AS tags_task,
+      (SELECT count(*) FROM task_tags_staging tt
+        WHERE NOT EXISTS (SELECT 1 FROM tags g WHERE g.gid = tt.tag_gid)) AS tags_tag,
+      (SELECT count(*) FROM task_sections_staging ts
+        WHERE NOT EXISTS (SELECT 1 FROM tasks_staging t WHERE t.gid = ts.task_gid)) AS sections_task,
+      (SELECT count(*) FROM subtask_dependencies_staging d
+        WHERE NOT EXISTS (SELECT 1 FROM subtasks_staging st WHERE st.gid = d.subtask_gid)
+          OR NOT EXISTS (SELECT 1 FROM subtasks_staging st WHERE st.gid = d.blocker_gid)) AS dependencies_subtask,
+      (SELECT count(*) FROM subtasks_staging st
+        WHERE st.external_assignee_gid IS NOT NULL AND NOT EXISTS (SELECT 1 FROM external_asana_users u WHERE u.gid = st.external_assignee_gid)) AS subtasks_external_assignee,
+      (SELECT count(*) FROM task_external_followers_staging f
+        WHERE NOT EXISTS (SELECT 1 FROM subtasks_staging st WHERE st.gid = f.task_gid)) AS external_followers_task,
+      (SELECT count(*) FROM task_external_followers_staging f
+        WHERE NOT EXISTS (SELECT 1 FROM external_asana_users u WHERE u.gid = f.follower_gid)) AS external_followers_user`;
+  if (orphans.tasks_section > 0) problems.push(`${orphans.tasks_section} tasks reference a missing section`);
+  if (orphans.subtasks_parent > 0) problems.push(`${orphans.subtasks_parent} subtasks reference a missing parent task`);
+  if (orphans.subtasks_assignee > 0) problems.push(`${orphans.subtasks_assignee} subtasks reference an unknown assignee`);
+  if (orphans.followers_task > 0) problems.push(`${orphans.followers_task} followers reference a missing subtask`);
+  if (orphans.followers_assignee > 0) problems.push(`${orphans.followers_assignee} followers reference an unknown assignee`);
+  if (orphans.custom_field_resource > 0) problems.push(`${orphans.custom_field_resource} custom field values reference a missing task or subtask`);
+  if (orphans.stories_task > 0) problems.push(`${orphans.stories_task} stories reference a missing subtask`);
+  if (orphans.tasks_assignee > 0) problems.push(`${orphans.tasks_assignee} tasks reference an unknown assignee`);
+  if (orphans.subtasks_parent_subtask > 0) problems.push(`${orphans.subtasks_parent_subtask} nested subtasks reference a missing parent subtask`);
+  if (orphans.tags_task > 0) problems.push(`${orphans.tags_task} task tags reference a missing task`);
+  if (orphans.tags_tag > 0) problems.push(`${orphans.tags_tag} task tags reference an unknown tag`);
+  if (orphans.sections_task > 0) problems.push(`${orphans.sections_task} section memberships reference a missing task`);
+  if (orphans.dependencies_subtask > 0) problems.push(`${orphans.dependencies_subtask} subtask dependencies reference a missing subtask`);
+  if (orphans.subtasks_external_assignee > 0) problems.push(`${orphans.subtasks_external_assignee} subtasks reference an unknown external assignee`);
+  if (orphans.external_followers_task > 0) problems.push(`${orphans.external_followers_task} external followers reference a missing subtask`);
+  if (orphans.external_followers_user > 0) problems.push(`${orphans.external_followers_user} external followers reference an unknown external user`);
+
+  if (problems.length > 0) throw new StagingValidationError(problems);
+  return actual;
+}
+
+/**
+ * Replace the live tables with the staged rows in one transaction and return
+ * how many live rows were replaced. The status history is derived from the new
+ * rows in the same transaction.
+ */
+export async function swapStagingIntoLive() {
+  return prisma.$transaction(async (tx) => {
+    const deletedCustomFields = await tx.custom_field_values.deleteMany();
+    const deletedStatusEvents = await tx.subtask_status_events.deleteMany();
+    const deletedStories = await tx.task_stories.deleteMany();
+    const deletedFollowers = await tx.task_followers.deleteMany();
+    const deletedExternalFollowers = await tx.task_external_followers.deleteMany();
+    const deletedTaskTags = await tx.task_tags.deleteMany();
+    const deletedTaskSections = await tx.task_sections.deleteMany();
+    const deletedDependencies = await tx.subtask_dependencies.deleteMany();
+    const deletedSubtasks = await tx.subtasks.deleteMany();
+    const deletedTasks = await tx.tasks.deleteMany();
+    const deletedSections = await tx.sections.deleteMany();
+
+    await tx.$executeRaw`INSERT INTO sections (gid, name, project_gid, deptid) SELECT gid, name, project_gid, deptid FROM sections_staging`;
+    await tx.$executeRaw`
+      INSERT INTO tasks (gid, name, section_gid, completed, completed_at, due_on, project, created_at, week_startdate, week_enddate, assignee_gid)
+      SELECT gid, name, section_gid, completed, completed_at, due_on, project, created_at, week_startdate, week_enddate, assignee_gid FROM tasks_staging`;
+    await tx.$executeRaw`INSERT INTO task_tags (task_gid, tag_gid) SELECT task_gid, tag_gid FROM task_tags_staging`;
+    await tx.$executeRaw`
+      INSERT INTO task_sections (task_gid, project_gid, section_gid, section_name)
+      SELECT task_gid, project_gid, section_gid, section_name FROM task_sections_staging`;
+    await tx.$executeRaw`
+      INSERT INTO subtasks (gid, name, parent_task_gid, assignee_gid, completed, created_at, completed_at, due_on, parent_subtask_gid, depth, external_assignee_gid)
+      SELECT gid, name, parent_task_gid, assignee_gid, completed, created_at, completed_at, due_on, parent_subtask_gid, depth, external_assignee_gid FROM subtasks_staging`;
+    await tx.$executeRaw`INSERT INTO subtask_dependencies (subtask_gid, blocker_gid) SELECT subtask_gid, blocker_gid FROM subtask_dependencies_staging`;
+    await tx.$executeRaw`INSERT INTO task_followers (task_gid, follower_gid) SELECT task_gid, follower_gid FROM task_followers_staging`;
+    await tx.$executeRaw`INSERT INTO task_external_followers (task_gid, follower_gid) SELECT task_gid, follower_gid FROM task_external_followers_staging`;
+    await tx.$executeRaw`
+      INSERT INTO custom_field_values (resource_gid, field_gid, type, text_value, number_value, date_value, enum_value, multi_enum_values, display_value)
+      SELECT resource_gid, field_gid, type, text_value, number_value, date_value, enum_value, multi_enum_values, display_value FROM custom_field_values_staging`;
+    await tx.$executeRaw`
+      INSERT INTO task_stories (gid, task_gid, type, resource_subtype, text, author_gid, author_name, created_at)
+      SELECT gid, task_gid, type, resource_subtype, text, author_gid, author_name, created_at FROM task_stories_staging`;
+    const statusEvents = await rebuildStatusEvents(tx);
+
+    return {
+      sections: deletedSections.count,
+      tasks: deletedTasks.count,
+      subtasks: deletedSubtasks.count,
+      followers: deletedFollowers.count,
+      customFields: deletedCustomFields.count,
+      stories: deletedStories.count,
+      taskTags: deletedTaskTags.count,
+      taskSections: deletedTaskSections.count,
+      dependencies: deletedDependencies.count,
+      externalFollowers: deletedExternalFollowers.count,
+      statusEvents: deletedStatusEvents.count,
+      statusEventsInserted: statusEvents.inserted,
+    };
+  }, { timeout: SWAP_TIMEOUT_MS });
+}
@@ -0,0 +1,61 @@
+import prisma from "./prisma";
+import type { AsanaTag, AsanaTask } from "./taskSource";
+
+// Tags and section memberships of top-level tasks. Asana returns both on the
+// task itself, so they are rewritten whenever the task is.
+
+export type TaskTagRow = { task_gid: string; tag_gid: string };
+export type TaskSectionRow = { task_gid: string; project_gid: string; section_gid: string; section_name: string | null };
+
+export function buildTaskTagRows(tasks: AsanaTask[]): TaskTagRow[] {
+  return tasks.flatMap((t) => (t.tags ?? []).map((tag) => ({ task_gid: t.gid, tag_gid: tag.gid })));
+}
+
+// One row per section the task is in, across every project it belongs to
+export function buildTaskSectionRows(tasks: AsanaTask[]): TaskSectionRow[] {
+  const rows: TaskSectionRow[] = [];
+  for (const t of tasks) {
+    for (const m of t.memberships ?? []) {
+      if (!m.section?.gid || !m.project?.gid) continue;
+      rows.push({ task_gid: t.gid, project_gid: m.project.gid, section_gid: m.section.gid, section_name: m.section.name ?? null });
+    }
+  }
+  return rows;
+}
+
+// Tags seen on the given tasks, one per tag gid
+export function collectTags(tasks: AsanaTask[]): AsanaTag[] {
+  const tags = new Map<string, AsanaTag>();
+  for (const t of tasks) {
+    for (const tag of t.tags ?? []) if (!tags.has(tag.gid)) tags.set(tag.gid, tag);
+  }
+  return Array.from(tags.values());
+}
+
+// Keep names and colors of known tags current. Runs before task_tags are
+// written, so every link has its tag.
+export async function recordTags(tags: AsanaTag[]) {
+  const now = new Date();
+  for (const tag of tags) {
+    const data = { name: tag.name ?? tag.gid, color: tag.color ?? null, updated_at: now };
+    await prisma.tags.upsert({ where: { gid: tag.gid }, update: data, create: { gid: tag.gid, ...data } });
+  }
+}
+
+/**
+ * Replace the tags and section memberships of `taskGids`. Used by the
+ * incremental sync and webhooks, where only some tasks are re-read.
+ */
+export async function replaceTaskMemberships(taskGids: string[], tags: TaskTagRow[], sections: TaskSectionRow[]) {
+  if (taskGids.length === 0) return { tags: { inserted: 0, deleted: 0 }, sections: { inserted: 0, deleted: 0 } };
+  const [deletedTags, insertedTags, deletedSections, insertedSections] = await prisma.$transaction([
+    prisma.task_tags.deleteMany({ where: { task_gid: { in: taskGids } } }),
+    prisma.task_tags.createMany({ data: tags, skipDuplicates: true }),
+    prisma.task_sections.deleteMany({ where: { task_gid: { in: taskGids } } }),
+    prisma.task_sections.createMany({ data: sections, skipDuplicates: true }),
+  ]);
+  return {
+    tags: { inserted: insertedTags.count, deleted: deletedTags.count },
+    sections: { inserted: insertedSections.count, deleted: deletedSections.count },
+  };
+}
@@ -0,0 +1,55 @@
+import type { SyncProgress } from "./syncRuns";
+
+// Shapes of the Asana records the sync reads. Every TaskSource returns them
+// as Asana's API would with the opt_fields listed in asana.ts.
+export type AsanaUser = { gid: string; name?: string; email?: string };
+export type AsanaSection = { gid: string; name: string };
+export type AsanaCustomField = {
+  gid: string;
+  name?: string;
+  resource_subtype?: string;
+  display_value?: string | null;
+  text_value?: string | null;
+  number_value?: number | null;
+  date_value?: { date?: string | null; date_time?: string | null } | null;
+  enum_value?: { gid: string; name?: string } | null;
+  multi_enum_values?: { gid: string; name?: string }[];
+};
+export type AsanaTag = { gid: string; name?: string; color?: string | null };
+export type AsanaTask = { gid: string; name?: string; due_on?: string | null; completed?: boolean; created_at?: string | null; modified_at?: string | null; assignee?: AsanaUser | null; memberships?: { project?: { gid?: string }; section?: { gid?: string; name?: string } }[]; tags?: AsanaTag[]; custom_fields?: AsanaCustomField[]; week_startdate?: string | null };
+export type AsanaSubtask = { gid: string; name?: string; completed?: boolean; created_at?: string | null; completed_at?: string | null; modified_at?: string | null; assignee?: AsanaUser | null; followers?: AsanaUser[]; custom_fields?: AsanaCustomField[]; due_on?: string | null; num_subtasks?: number; dependencies?: { gid: string }[]; dependents?: { gid: string }[] };
+
+// One task or subtask as GET /tasks/{gid} returns it, with its parent and projects
+export type AsanaTaskDetail = AsanaTask & AsanaSubtask & { parent?: { gid: string } | null; projects?: { gid: string }[] };
+
+// A comment (`type` "comment") or activity entry ("system") on a task
+export type AsanaStory = { gid: string; created_at: string; type?: string; resource_subtype?: string; text?: string | null; created_by?: AsanaUser | null };
+
+export type SubtaskWithParent = { sub: AsanaSubtask; parentTaskGid: string };
+export type StoryWithTask = { story: AsanaStory; taskGid: string };
+
+export type ProgressListener = (progress: SyncProgress) => void;
+
+/**
+ * Where a sync reads its data from. The live adapter talks to the Asana API
+ * (see createAsanaSource in asana.ts); the fixture adapter replays recorded
+ * JSON files so a sync can run without network access or a token.
+ */
+export interface TaskSource {
+  readonly name: string;
+  listTeamUsers(teamGid: string): Promise<AsanaUser[]>;
+  // Every user of the workspace directory, including people in no team
+  listWorkspaceUsers(workspaceGid: string): Promise<AsanaUser[]>;
+  listSections(projectGid: string): Promise<AsanaSection[]>;
+  // Every top-level task of the project
+  listTasks(projectGid: string): Promise<AsanaTask[]>;
+  // Tasks of the project modified at or after `since`
+  listModifiedTasks(projectGid: string, since: Date): Promise<AsanaTask[]>;
+  // A single task or subtask; null once it no longer exists
+  getTask(gid: string): Promise<AsanaTaskDetail | null>;
+  // Subtasks of each parent, in the order of `parentGids`. A parent that no
+  // longer exists has no subtasks.
+  listSubtasks(parentGids: string[], onProgress?: ProgressListener): Promise<SubtaskWithParent[]>;
+  // Stories of each task, oldest first, in the order of `taskGids`
+  listStories(taskGids: string[], onProgress?: ProgressListener): Promise<StoryWithTask[]>;
+}
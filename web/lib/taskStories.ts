@@ -0,0 +1,41 @@
+import prisma from "./prisma";
+import type { StoryWithTask } from "./taskSource";
+
+export type StoryRow = {
+  gid: string;
+  task_gid: string;
+  type: string;
+  resource_subtype: string | null;
+  text: string | null;
+  author_gid: string | null;
+  author_name: string | null;
+  created_at: Date;
+};
+
+export function buildStoryRows(stories: StoryWithTask[]): StoryRow[] {
+  return stories
+    .filter(({ story }) => story.created_at)
+    .map(({ story, taskGid }) => ({
+      gid: story.gid,
+      task_gid: taskGid,
+      type: story.type ?? "system",
+      resource_subtype: story.resource_subtype ?? null,
+      text: story.text ?? null,
+      author_gid: story.created_by?.gid ?? null,
+      author_name: story.created_by?.name ?? null,
+      created_at: new Date(story.created_at),
+    }));
+}
+
+/**
+ * Replace the stored stories of `taskGids` with `rows`. Stories can be edited
+ * or deleted in Asana, so the whole list of each task is rewritten.
+ */
+export async function replaceTaskStories(taskGids: string[], rows: StoryRow[]) {
+  if (taskGids.length === 0) return { inserted: 0, deleted: 0 };
+  const [deleted, inserted] = await prisma.$transaction([
+    prisma.task_stories.deleteMany({ where: { task_gid: { in: taskGids } } }),
+    prisma.task_stories.createMany({ data: rows, skipDuplicates: true }),
+  ]);
+  return { inserted: inserted.count, deleted: deleted.count };
+}
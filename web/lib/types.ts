@@ -1,4 +1,4 @@
-export type StatusFilter = "all" | "pending" | "completed" | "overdue";
+export type StatusFilter = "all" | "pending" | "completed" | "overdue" | "blocked";
 
 export type WeeklyPoint = { week: string; assigned: number; completed: number; overdue: number; collab: number; expected: number };
 
@@ -8,9 +8,63 @@ export type CurrentTaskRow = {
   week: string | null;
   created_at: string | null;
   due_on: string | null;
-  status: "Pending" | "Completed" | "Overdue";
+  status: "Pending" | "Completed" | "Overdue" | "Blocked";
   type: "Owner" | "Collaborator";
   followers?: Follower[];
+  // Owner of the weekly parent task
+  taskOwner?: string | null;
+  // Subtask a nested work item was broken down from
+  parentSubtask?: string | null;
+  // Open subtasks this one waits for, one chain per path, nearest blocker first
+  blockedBy?: { gid: string; name: string }[][];
+  // Values of the custom fields shown as columns, keyed by field gid
+  customFields?: Record<string, string>;
+};
+
+// Flow metrics of the subtasks an assignee owns, from the status history.
+// Times are in days; null when no completed subtask has the needed events.
+export type CycleTimeMetrics = {
+  completed: number;
+  avgLeadTime: number | null;
+  medianLeadTime: number | null;
+  avgCycleTime: number | null;
+  medianCycleTime: number | null;
+  reschedules: number;
+  rescheduledTasks: number;
+  reopened: number;
+};
+
+export type TaskStory = {
+  gid: string;
+  type: string;
+  resource_subtype: string | null;
+  text: string | null;
+  author: string | null;
+  created_at: string;
+};
+
+// A subtask with its discussion, for the task detail view
+export type TaskDetail = {
+  gid: string;
+  name: string;
+  parentName: string | null;
+  week: string | null;
+  due_on: string | null;
+  status: CurrentTaskRow["status"];
+  assignee: string | null;
+  // Owner and tags of the weekly parent task
+  taskOwner: string | null;
+  tags: string[];
+  stories: TaskStory[];
+};
+
+export type CustomFieldColumn = { gid: string; name: string; type: string };
+
+// Subtask counts per value of a custom field chosen as a report dimension, or
+// per tag of the parent task (field gid "tags")
+export type CustomFieldBreakdown = {
+  field: CustomFieldColumn;
+  values: { value: string; total: number; completed: number; overdue: number }[];
 };
 export type Follower = {
   gid: string;
@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import { reportDateKey, reportDay } from "./reportTime";
+import { createWeekNameParser, DEFAULT_WEEK_PATTERNS, normalizeYear, parseWeekName, selectWeekPatterns, type WeekNamePattern } from "./weekName";
+
+// Start and end of a parsed week as report days, for readable assertions
+function parsed(name: string, defaultYear?: number) {
+  const week = parseWeekName(name, defaultYear ? { defaultYear } : {});
+  return week && { start: reportDateKey(week.start), end: reportDateKey(week.end), pattern: week.pattern };
+}
+
+describe("parseWeekName", () => {
+  describe("Thai months", () => {
+    it("reads an abbreviated month with a BE year", () => {
+      expect(parsed("สัปดาห์ที่ 2-6 มิ.ย. 2568")).toEqual({ start: "2025-06-02", end: "2025-06-06", pattern: "day-month" });
+    });
+
+    it("reads a two-digit BE year and abbreviations without dots", () => {
+      expect(parsed("สัปดาห์ที่ 2-6 มิย 68")).toEqual({ start: "2025-06-02", end: "2025-06-06", pattern: "day-month" });
+    });
+
+    it("reads a full month name", () => {
+      expect(parsed("สัปดาห์ 2-6 มิถุนายน 2568")).toEqual({ start: "2025-06-02", end: "2025-06-06", pattern: "day-month" });
+    });
+  });
+
+  describe("English months", () => {
+    it("reads a day range before the month", () => {
+      expect(parsed("Week of 26-30 May 2025")).toEqual({ start: "2025-05-26", end: "2025-05-30", pattern: "day-month" });
+    });
+
+    it("reads a day range after the month", () => {
+      expect(parsed("Week of May 26-30, 2025")).toEqual({ start: "2025-05-26", end: "2025-05-30", pattern: "day-month" });
+    });
+
+    it("runs a single day to the Sunday after", () => {
+      expect(parsed("Week of 26 May 2025")).toEqual({ start: "2025-05-26", end: "2025-06-01", pattern: "day-month" });
+    });
+
+    it("ignores day and month names that do not mention a week", () => {
+      expect(parsed("Review 26 May 2025")).toBeNull();
+    });
+  });
+
+  describe("ISO weeks", () => {
+    it("reads W23 2025 as Monday to Sunday", () => {
+      expect(parsed("W23 2025")).toEqual({ start: "2025-06-02", end: "2025-06-08", pattern: "iso-week" });
+    });
+
+    it("starts week 1 in the previous year when January 4th is late in the week", () => {
+      expect(parsed("2025-W01")).toEqual({ start: "2024-12-30", end: "2025-01-05", pattern: "iso-week" });
+    });
+
+    it("rejects week numbers out of range", () => {
+      expect(parsed("W54 2025")).toBeNull();
+    });
+  });
+
+  describe("ranges across a boundary", () => {
+    it("crosses a month", () => {
+      expect(parsed("Week of 30 June-4 July 2025")).toEqual({ start: "2025-06-30", end: "2025-07-04", pattern: "day-month" });
+    });
+
+    it("crosses a year, starting in the year before the one written", () => {
+      expect(parsed("Week of 29 Dec - 2 Jan 2026")).toEqual({ start: "2025-12-29", end: "2026-01-02", pattern: "day-month" });
+    });
+
+    it("crosses a year with two full dates", () => {
+      expect(parsed("2025-12-29 - 2026-01-02")).toEqual({ start: "2025-12-29", end: "2026-01-02", pattern: "date-range" });
+    });
+
+    it("crosses a year with day/month/year dates in BE", () => {
+      expect(parsed("29/12/2568 ถึง 02/01/2569")).toEqual({ start: "2025-12-29", end: "2026-01-02", pattern: "date-range" });
+    });
+  });
+
+  describe("invalid dates", () => {
+    it("rejects 31 June", () => {
+      expect(parsed("Week of 31 June 2025")).toBeNull();
+    });
+
+    it("rejects 31 June in a date range", () => {
+      expect(parsed("2025-06-31 - 2025-07-04")).toBeNull();
+    });
+
+    it("rejects a range that ends before it starts", () => {
+      expect(parsed("2025-06-06 - 2025-06-02")).toBeNull();
+    });
+
+    it("gives null for an empty name", () => {
+      expect(parseWeekName(null)).toBeNull();
+      expect(parseWeekName("")).toBeNull();
+    });
+  });
+
+  describe("missing year", () => {
+    it("uses the default year", () => {
+      expect(parsed("Week of 2-6 June", 2024)).toEqual({ start: "2024-06-02", end: "2024-06-06", pattern: "day-month" });
+    });
+
+    it("takes the year before the default for a range that crosses into January", () => {
+      expect(parsed("Week of 29 Dec - 2 Jan", 2026)).toEqual({ start: "2025-12-29", end: "2026-01-02", pattern: "day-month" });
+    });
+  });
+
+  it("returns the end date as the start of its report day", () => {
+    const week = parseWeekName("Week of 26-30 May 2025");
+    expect(week).not.toBeNull();
+    expect(week!.end).toEqual(reportDay(2025, 4, 30));
+  });
+});
+
+describe("normalizeYear", () => {
+  it("converts BE years to CE", () => {
+    expect(normalizeYear("2568")).toBe(2025);
+    expect(normalizeYear("2025")).toBe(2025);
+  });
+
+  it("reads two-digit years as BE only after a Thai month", () => {
+    expect(normalizeYear("68", true)).toBe(2025);
+    expect(normalizeYear("25")).toBe(2025);
+  });
+});
+
+describe("custom patterns", () => {
+  // "Sprint 2025-06-02": a week that starts on the date given
+  const sprintPattern: WeekNamePattern = {
+    name: "sprint",
+    parse(text) {
+      const m = text.match(/^sprint (\d{4})-(\d{2})-(\d{2})$/i);
+      const start = m && reportDay(Number(m[1]), Number(m[2]) - 1, Number(m[3]), true);
+      return start ? { start, end: reportDay(Number(m[1]), Number(m[2]) - 1, Number(m[3]) + 13)!, pattern: this.name } : null;
+    },
+  };
+
+  it("parses names the default patterns do not", () => {
+    const parse = createWeekNameParser([...DEFAULT_WEEK_PATTERNS, sprintPattern]);
+    expect(parseWeekName("Sprint 2025-06-02")).toBeNull();
+    const week = parse("Sprint 2025-06-02");
+    expect(week).not.toBeNull();
+    expect([reportDateKey(week!.start), reportDateKey(week!.end), week!.pattern]).toEqual(["2025-06-02", "2025-06-15", "sprint"]);
+  });
+
+  it("keeps the default patterns working alongside", () => {
+    const parse = createWeekNameParser([...DEFAULT_WEEK_PATTERNS, sprintPattern]);
+    expect(parse("W23 2025")?.pattern).toBe("iso-week");
+  });
+
+  it("selects patterns by name in the order given", () => {
+    const patterns = selectWeekPatterns(["sprint", "iso-week"], [...DEFAULT_WEEK_PATTERNS, sprintPattern]);
+    expect(patterns.map((p) => p.name)).toEqual(["sprint", "iso-week"]);
+    expect(createWeekNameParser(patterns)("Week of 26-30 May 2025")).toBeNull();
+  });
+
+  it("throws on an unknown pattern name", () => {
+    expect(() => selectWeekPatterns(["iso-week", "sprnt"])).toThrow(/unknown week name pattern 'sprnt'/);
+  });
+});
@@ -0,0 +1,224 @@
+// Week names of the weekly tasks, e.g. "Week of 26-30 May 2025",
+// "สัปดาห์ที่ 2-6 มิ.ย. 2568", "W23 2025" or "2025-06-02 - 2025-06-06".
+// A parser tries its patterns in order and the first match wins. Dates are
+// the start of the day in REPORT_TIMEZONE, like the rest of the sync.
+
+import { addReportDays, reportDay, reportDayjs } from "./reportTime";
+
+export type ParsedWeek = {
+  start: Date;
+  end: Date;
+  // Name of the pattern that matched
+  pattern: string;
+};
+
+export type WeekParseContext = {
+  // Year used when the name has none. Default: the current year in REPORT_TIMEZONE.
+  defaultYear: number;
+};
+
+export type WeekNamePattern = {
+  name: string;
+  parse(text: string, ctx: WeekParseContext): ParsedWeek | null;
+};
+
+// A week whose end is not in the name runs Monday to Sunday
+const IMPLIED_WEEK_DAYS = 6;
+
+const EN_MONTHS: Record<string, number> = {
+  jan: 0, january: 0,
+  feb: 1, february: 1,
+  mar: 2, march: 2,
+  apr: 3, april: 3,
+  may: 4,
+  jun: 5, june: 5,
+  jul: 6, july: 6,
+  aug: 7, august: 7,
+  sep: 8, sept: 8, september: 8,
+  oct: 9, october: 9,
+  nov: 10, november: 10,
+  dec: 11, december: 11,
+};
+
+const TH_MONTH_NAMES = ["มกราคม", "กุมภาพันธ์", "มีนาคม", "เมษายน", "พฤษภาคม", "มิถุนายน", "กรกฎาคม", "สิงหาคม", "กันยายน", "ตุลาคม", "พฤศจิกายน", "ธันวาคม"];
+const TH_MONTH_ABBRS = ["ม.ค.", "ก.พ.", "มี.ค.", "เม.ย.", "พ.ค.", "มิ.ย.", "ก.ค.", "ส.ค.", "ก.ย.", "ต.ค.", "พ.ย.", "ธ.ค."];
+
+// Month tokens are looked up without dots, so "มิ.ย." and "มิย" are the same month
+const normalizeMonth = (token: string) => token.toLowerCase().replace(/[.\s]/g, "");
+
+const TH_MONTHS: Record<string, number> = Object.fromEntries([
+  ...TH_MONTH_NAMES.map((m, i) => [m, i] as const),
+  ...TH_MONTH_ABBRS.map((m, i) => [normalizeMonth(m), i] as const),
+]);
+
+const isThaiMonth = (token: string) => normalizeMonth(token) in TH_MONTHS;
+
+function monthIndex(token: string): number | null {
+  const key = normalizeMonth(token);
+  return EN_MONTHS[key] ?? TH_MONTHS[key] ?? null;
+}
+
+// Thai abbreviations with optional dots and spaces: "มิ.ย.", "มิ. ย.", "มิย"
+const thaiAbbrSource = (abbr: string) =>
+  abbr.split(".").filter(Boolean).join("\\.?\\s?") + "\\.?";
+
+const MONTH = `(?:${[
+  "jan(?:uary)?", "feb(?:ruary)?", "mar(?:ch)?", "apr(?:il)?", "may", "june?", "july?",
+  "aug(?:ust)?", "sep(?:t(?:ember)?)?", "oct(?:ober)?", "nov(?:ember)?", "dec(?:ember)?",
+].map((m) => `${m}(?![a-z])`).join("|")}|${TH_MONTH_NAMES.join("|")}|${TH_MONTH_ABBRS.map(thaiAbbrSource).join("|")})`;
+
+const DASH = String.raw`\s*(?:-|–|—|to|ถึง)\s*`;
+// A day of the month, not part of a longer number such as a year
+const DAY = String.raw`(?<!\d)(\d{1,2})(?!\d)`;
+
+/**
+ * Gregorian year of a year token. Years from 2400 are Buddhist Era (BE =
+ * CE + 543). Two-digit years are BE after a Thai month ("มิ.ย. 68" is 2025)
+ * and CE otherwise.
+ */
+export function normalizeYear(raw: string, thai = false): number {
+  const year = parseInt(raw, 10);
+  if (raw.length <= 2) return thai ? 2500 + year - 543 : 2000 + year;
+  return year >= 2400 ? year - 543 : year;
+}
+
+// Start of the day, or null when the day does not exist in that month
+const makeDate = (year: number, month: number, day: number) => reportDay(year, month, day, true);
+
+function week(start: Date | null, end: Date | null, pattern: string): ParsedWeek | null {
+  if (!start) return null;
+  const finalEnd = end ?? addReportDays(start, IMPLIED_WEEK_DAYS);
+  if (finalEnd < start) return null;
+  return { start, end: finalEnd, pattern };
+}
+
+/**
+ * Two full dates: "2025-06-02 - 2025-06-06" or "02/06/2025 ถึง 06/06/2568"
+ * (day/month/year, BE allowed).
+ */
+export const dateRangePattern: WeekNamePattern = {
+  name: "date-range",
+  parse(text) {
+    const DATE = String.raw`(\d{4})-(\d{1,2})-(\d{1,2})|(\d{1,2})/(\d{1,2})/(\d{2,4})`;
+    const m = text.match(new RegExp(`(?:${DATE})${DASH}(?:${DATE})`, "i"));
+    if (!m) return null;
+    const toDate = (g: string[]) => g[0]
+      ? makeDate(normalizeYear(g[0]), parseInt(g[1], 10) - 1, parseInt(g[2], 10))
+      : makeDate(normalizeYear(g[5]), parseInt(g[4], 10) - 1, parseInt(g[3], 10));
+    return week(toDate(m.slice(1, 7)), toDate(m.slice(7, 13)), this.name);
+  },
+};
+
+/** ISO 8601 week numbers: "W23 2025", "Week 23, 2025", "2025-W23". */
+export const isoWeekPattern: WeekNamePattern = {
+  name: "iso-week",
+  parse(text) {
+    const m = text.match(/\bw(?:ee)?k?\s*(\d{1,2})\b[\s,/]*(\d{4})\b/i) ?? text.match(/\b(\d{4})-?w(\d{2})\b/i);
+    if (!m) return null;
+    const [weekNo, year] = /^\d{4}$/.test(m[1]) ? [parseInt(m[2], 10), normalizeYear(m[1])] : [parseInt(m[1], 10), normalizeYear(m[2])];
+    if (weekNo < 1 || weekNo > 53) return null;
+    // Week 1 is the week with January 4th; weeks start on Monday
+    const jan4Weekday = new Date(Date.UTC(year, 0, 4)).getUTCDay();
+    const monday = reportDay(year, 0, 4 - ((jan4Weekday + 6) % 7) + (weekNo - 1) * 7)!;
+    return week(monday, addReportDays(monday, IMPLIED_WEEK_DAYS), this.name);
+  },
+};
+
+/**
+ * Day and month names in English or Thai, as a single day or a range:
+ * "Week of 26 May 2025", "Week of 26-30 May 2025", "Week of 30 June-4 July
+ * 2025", "Week of May 26-30, 2025", "สัปดาห์ที่ 2-6 มิ.ย. 2568". Only names
+ * that mention the week are considered, to avoid false positives.
+ */
+export const dayMonthPattern: WeekNamePattern = {
+  name: "day-month",
+  parse(text, ctx) {
+    if (!/week|wk|สัปดาห์/i.test(text)) return null;
+
+    // Year written anywhere in the name, as the old parser did
+    const anyYear = text.match(/(?<!\d)(\d{4})(?!\d)/)?.[1];
+
+    // "26 May - 2 Jun 2025", "26-30 May 2025", "2-6 มิ.ย. 68"
+    const dayFirst = text.match(new RegExp(String.raw`${DAY}\s*(?:(${MONTH})\s*)?(?:(\d{4})\s*)?${DASH}${DAY}\s*(${MONTH})(?:\s*,?\s*(\d{4}|\d{2})(?!\d))?`, "i"));
+    if (dayFirst) {
+      const [, startDay, startMonthRaw, startYearRaw, endDay, endMonthRaw, endYearRaw] = dayFirst;
+      return range(startDay, startMonthRaw, startYearRaw, endDay, endMonthRaw, endYearRaw ?? anyYear, ctx, this.name);
+    }
+
+    // "May 26 - 30, 2025", "May 30 - June 3 2025"
+    const monthFirst = text.match(new RegExp(String.raw`(${MONTH})\s*${DAY}(?:${DASH}(?:(${MONTH})\s*)?${DAY})?(?:\s*,?\s*(\d{4}))?`, "i"));
+    if (monthFirst) {
+      const [, startMonthRaw, startDay, endMonthRaw, endDay, yearRaw] = monthFirst;
+      if (!endDay) return single(startDay, startMonthRaw, yearRaw ?? anyYear, ctx, this.name);
+      return range(startDay, startMonthRaw, undefined, endDay, endMonthRaw ?? startMonthRaw, yearRaw ?? anyYear, ctx, this.name);
+    }
+
+    // "26 May 2025", "26 มิถุนายน 2568"
+    const dm = text.match(new RegExp(String.raw`${DAY}\s*(${MONTH})(?:\s*,?\s*(\d{4}|\d{2})(?!\d))?`, "i"));
+    if (dm) return single(dm[1], dm[2], dm[3] ?? anyYear, ctx, this.name);
+    return null;
+  },
+};
+
+function single(dayRaw: string, monthRaw: string, yearRaw: string | undefined, ctx: WeekParseContext, pattern: string) {
+  const month = monthIndex(monthRaw);
+  if (month == null) return null;
+  const year = yearRaw ? normalizeYear(yearRaw, isThaiMonth(monthRaw)) : ctx.defaultYear;
+  return week(makeDate(year, month, parseInt(dayRaw, 10)), null, pattern);
+}
+
+function range(
+  startDayRaw: string,
+  startMonthRaw: string | undefined,
+  startYearRaw: string | undefined,
+  endDayRaw: string,
+  endMonthRaw: string,
+  endYearRaw: string | undefined,
+  ctx: WeekParseContext,
+  pattern: string,
+) {
+  const endMonth = monthIndex(endMonthRaw);
+  const startMonth = startMonthRaw ? monthIndex(startMonthRaw) : endMonth;
+  if (endMonth == null || startMonth == null) return null;
+  const endYear = endYearRaw ? normalizeYear(endYearRaw, isThaiMonth(endMonthRaw)) : ctx.defaultYear;
+  // "29 Dec - 2 Jan 2026": the start falls in the year before
+  const startYear = startYearRaw
+    ? normalizeYear(startYearRaw, startMonthRaw ? isThaiMonth(startMonthRaw) : false)
+    : startMonth > endMonth ? endYear - 1 : endYear;
+  const start = makeDate(startYear, startMonth, parseInt(startDayRaw, 10));
+  const end = makeDate(endYear, endMonth, parseInt(endDayRaw, 10));
+  if (!end) return null;
+  return week(start, end, pattern);
+}
+
+// Explicit ranges first: they are the least ambiguous
+export const DEFAULT_WEEK_PATTERNS: WeekNamePattern[] = [dateRangePattern, isoWeekPattern, dayMonthPattern];
+
+/**
+ * Patterns by name, in the given order, e.g. from a comma-separated setting.
+ * Throws on an unknown name so a typo does not silently disable parsing.
+ */
+export function selectWeekPatterns(names: string[], available: WeekNamePattern[] = DEFAULT_WEEK_PATTERNS): WeekNamePattern[] {
+  return names.map((name) => {
+    const pattern = available.find((p) => p.name === name);
+    if (!pattern) throw new Error(`unknown week name pattern '${name}', expected one of ${available.map((p) => p.name).join(", ")}`);
+    return pattern;
+  });
+}
+
+export type WeekNameParser = (name: string | null | undefined, ctx?: Partial<WeekParseContext>) => ParsedWeek | null;
+
+export function createWeekNameParser(patterns: WeekNamePattern[] = DEFAULT_WEEK_PATTERNS): WeekNameParser {
+  return (name, ctx = {}) => {
+    if (!name) return null;
+    const fullCtx: WeekParseContext = { defaultYear: ctx.defaultYear ?? reportDayjs().year() };
+    const text = name.trim();
+    for (const pattern of patterns) {
+      const parsed = pattern.parse(text, fullCtx);
+      if (parsed) return parsed;
+    }
+    return null;
+  };
+}
+
+export const parseWeekName: WeekNameParser = createWeekNameParser();
@@ -0,0 +1,97 @@
+import prisma from "./prisma";
+import { reportDateKey } from "./reportTime";
+
+export type WeekOverride = { start: Date; end: Date | null };
+
+type WeekOverrideRow = { week_startdate: Date; week_enddate: Date | null };
+
+// Week dates as report calendar days (YYYY-MM-DD), so the admin screen shows
+// the same day whatever the timezone of the browser
+const withReportDays = <T extends WeekOverrideRow>(o: T) => ({
+  ...o,
+  week_startdate: reportDateKey(o.week_startdate),
+  week_enddate: o.week_enddate ? reportDateKey(o.week_enddate) : null,
+});
+
+// Manual week dates keyed by task gid, applied by the sync before parsing
+export async function loadWeekOverrides(): Promise<Map<string, WeekOverride>> {
+  const rows = await prisma.week_overrides.findMany({ select: { task_gid: true, week_startdate: true, week_enddate: true } });
+  return new Map(rows.map((r) => [r.task_gid, { start: r.week_startdate, end: r.week_enddate }]));
+}
+
+/**
+ * Bring week_parse_failures up to date for the tasks a sync just wrote:
+ * `failedGids` are (re)recorded, the other `rows` no longer fail. Failures of
+ * tasks that left the synced projects are dropped as well.
+ */
+export async function recordWeekParseFailures(rows: { gid: string; name: string | null; project: string }[], failedGids: Set<string>) {
+  const now = new Date();
+  const failed = rows.filter((r) => failedGids.has(r.gid));
+  const parsed = rows.filter((r) => !failedGids.has(r.gid)).map((r) => r.gid);
+  if (parsed.length > 0) await prisma.week_parse_failures.deleteMany({ where: { task_gid: { in: parsed } } });
+  for (const r of failed) {
+    await prisma.week_parse_failures.upsert({
+      where: { task_gid: r.gid },
+      update: { name: r.name, project: r.project, last_seen_at: now },
+      create: { task_gid: r.gid, name: r.name, project: r.project, first_seen_at: now, last_seen_at: now },
+    });
+  }
+  await prisma.$executeRaw`
+    DELETE FROM week_parse_failures f
+    WHERE NOT EXISTS (SELECT 1 FROM tasks t WHERE t.gid = f.task_gid)`;
+}
+
+/**
+ * Unparsed tasks with the week currently stored for them and their override,
+ * if any. Overridden tasks stay listed so the override can be reviewed.
+ */
+export async function listWeekParseFailures() {
+  const failures = await prisma.week_parse_failures.findMany({ orderBy: [{ last_seen_at: "desc" }, { name: "asc" }] });
+  const gids = failures.map((f) => f.task_gid);
+  const [tasks, overrides, projects] = await Promise.all([
+    prisma.tasks.findMany({ where: { gid: { in: gids } }, select: { gid: true, week_startdate: true, created_at: true } }),
+    prisma.week_overrides.findMany({ where: { task_gid: { in: gids } } }),
+    prisma.sync_projects.findMany({ select: { gid: true, name: true } }),
+  ]);
+  const taskMap = new Map(tasks.map((t) => [t.gid, t]));
+  const overrideMap = new Map(overrides.map((o) => [o.task_gid, o]));
+  const projectNames = new Map(projects.map((p) => [p.gid, p.name]));
+  return failures.map((f) => {
+    const task = taskMap.get(f.task_gid);
+    const override = overrideMap.get(f.task_gid);
+    return {
+      ...f,
+      projectName: f.project ? projectNames.get(f.project) ?? null : null,
+      week_startdate: task?.week_startdate ? reportDateKey(task.week_startdate) : null,
+      created_at: task?.created_at ?? null,
+      override: override ? withReportDays(override) : null,
+    };
+  });
+}
+
+// Every override, including ones on tasks whose name parses fine
+export async function listWeekOverrides() {
+  const overrides = await prisma.week_overrides.findMany({ orderBy: { updated_at: "desc" } });
+  const tasks = await prisma.tasks.findMany({ where: { gid: { in: overrides.map((o) => o.task_gid) } }, select: { gid: true, name: true } });
+  const names = new Map(tasks.map((t) => [t.gid, t.name]));
+  return overrides.map((o) => ({ ...withReportDays(o), name: names.get(o.task_gid) ?? null }));
+}
+
+/**
+ * Store an override and apply it to the live task right away, so reports
+ * change without waiting for the next sync.
+ */
+export async function setWeekOverride(taskGid: string, week: WeekOverride & { note?: string | null }, updatedBy: string | null) {
+  const data = { week_startdate: week.start, week_enddate: week.end, note: week.note ?? null, updated_by: updatedBy, updated_at: new Date() };
+  const [override] = await prisma.$transaction([
+    prisma.week_overrides.upsert({ where: { task_gid: taskGid }, update: data, create: { task_gid: taskGid, ...data } }),
+    prisma.tasks.updateMany({ where: { gid: taskGid }, data: { week_startdate: week.start, week_enddate: week.end } }),
+  ]);
+  return override;
+}
+
+// The task goes back to its parsed (or fallback) week on the next sync
+export async function clearWeekOverride(taskGid: string) {
+  const deleted = await prisma.week_overrides.deleteMany({ where: { task_gid: taskGid } });
+  return deleted.count > 0;
+}
@@ -0,0 +1,142 @@
+import prisma from "./prisma";
+import { addReportDays, reportDateKey, startOfReportDay } from "./reportTime";
+import { countedSubtaskWhere, SUBTASK_COUNTING } from "./subtaskTree";
+
+// A sync overwrites every task, so a task deleted or moved in Asana would
+// change the numbers of weeks long gone. Once a week is closed its weekly
+// summary counts are frozen into weekly_snapshots, and reports read closed
+// weeks from there. Snapshots are only ever inserted.
+
+/**
+ * Days after a week ends before it is closed, so work completed late still
+ * counts (REPORT_WEEK_CLOSE_GRACE_DAYS, default 0: closed the day after).
+ */
+export const WEEK_CLOSE_GRACE_DAYS = Math.max(0, Number(process.env.REPORT_WEEK_CLOSE_GRACE_DAYS ?? 0) || 0);
+
+const EXPECTED_TASKS_PER_WEEK = Number(process.env.REPORT_EXPECTED_TASKS_PER_WEEK ?? 3);
+
+// A week without week_enddate runs Monday to Sunday, as in weekName.ts
+const IMPLIED_WEEK_DAYS = 6;
+
+// The report day from which a week ending on `end` is closed
+export function weekClosesOn(end: Date): Date {
+  return addReportDays(startOfReportDay(end), 1 + WEEK_CLOSE_GRACE_DAYS);
+}
+
+type SnapshotCounts = { assigned: number; completed: number; overdue: number; collab: number };
+
+/**
+ * Freeze every week that closed since the last call: its last day, the
+ * latest week_enddate of its tasks (or start + 6 days), is past by more than
+ * the grace days. A week holding a task whose name gave no week and that has
+ * no override yet is held back, since that task's stored week is a guess and
+ * may move once an admin sets it.
+ *
+ * Counts follow getWeeklySummary: an owner is assigned, a follower
+ * collaborates, and both count the subtask as completed, or as overdue when
+ * it is open, not blocked and was due before the day the week is closed.
+ */
+export async function snapshotClosedWeeks(now: Date = new Date()) {
+  const cutoff = startOfReportDay(now);
+  const [tasks, closed, failures, overrides] = await Promise.all([
+    prisma.tasks.findMany({ where: { week_startdate: { lt: cutoff } }, select: { gid: true, week_startdate: true, week_enddate: true } }),
+    prisma.closed_weeks.findMany({ select: { week_startdate: true } }),
+    prisma.week_parse_failures.findMany({ select: { task_gid: true } }),
+    prisma.week_overrides.findMany({ select: { task_gid: true } }),
+  ]);
+  const done = new Set(closed.map((w) => reportDateKey(w.week_startdate)));
+  const overridden = new Set(overrides.map((o) => o.task_gid));
+  const unresolved = new Set(failures.map((f) => f.task_gid).filter((gid) => !overridden.has(gid)));
+
+  // Starts stored at different times of one report day are one week
+  const open = new Map<string, { start: Date; end: Date; unresolved: number }>();
+  for (const t of tasks) {
+    const key = reportDateKey(t.week_startdate);
+    if (done.has(key)) continue;
+    const start = startOfReportDay(t.week_startdate);
+    const end = t.week_enddate ?? addReportDays(start, IMPLIED_WEEK_DAYS);
+    const w = open.get(key) ?? { start, end, unresolved: 0 };
+    if (end > w.end) w.end = end;
+    if (unresolved.has(t.gid)) w.unresolved += 1;
+    open.set(key, w);
+  }
+
+  const weeks = new Map<string, { start: Date; closesOn: Date }>();
+  let heldBack = 0;
+  for (const [key, w] of Array.from(open.entries())) {
+    const closesOn = weekClosesOn(w.end);
+    if (closesOn > cutoff) continue;
+    if (w.unresolved > 0) {
+      heldBack += 1;
+      console.log(`[snapshots] holding back week ${key}: ${w.unresolved} tasks have no parsed week or override`);
+      continue;
+    }
+    weeks.set(key, { start: w.start, closesOn });
+  }
+
+  let rows = 0;
+  for (const [key, { start, closesOn }] of Array.from(weeks.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+    const subtasks = await prisma.subtasks.findMany({
+      where: { tasks: { week_startdate: { gte: start, lt: addReportDays(start, 1) } }, ...countedSubtaskWhere() },
+      select: {
+        assignee_gid: true, completed: true, due_on: true, tasks: { select: { project: true } }, task_followers: { select: { follower_gid: true } },
+        _count: { select: { dependencies: { where: { blocker: { completed: false } } } } },
+      },
+    });
+
+    const counts = new Map<string, SnapshotCounts & { assignee_gid: string; project: string | null }>();
+    const countsOf = (assigneeGid: string, project: string | null) => {
+      const k = `${assigneeGid}:${project ?? ""}`;
+      if (!counts.has(k)) counts.set(k, { assignee_gid: assigneeGid, project, assigned: 0, completed: 0, overdue: 0, collab: 0 });
+      return counts.get(k)!;
+    };
+    for (const st of subtasks) {
+      // Blocked work is not overdue, as in the live reports
+      const overdue = !st.completed && st._count.dependencies === 0 && st.due_on != null && st.due_on < closesOn;
+      const people = new Set([...(st.assignee_gid ? [st.assignee_gid] : []), ...st.task_followers.map((f) => f.follower_gid)]);
+      for (const gid of Array.from(people)) {
+        const c = countsOf(gid, st.tasks?.project ?? null);
+        if (gid === st.assignee_gid) c.assigned += 1;
+        if (st.task_followers.some((f) => f.follower_gid === gid)) c.collab += 1;
+        if (st.completed) c.completed += 1;
+        if (overdue) c.overdue += 1;
+      }
+    }
+
+    const data = Array.from(counts.values()).map((c) => ({ week_startdate: start, ...c }));
+    await prisma.$transaction([
+      prisma.closed_weeks.create({ data: { week_startdate: start, subtask_counting: SUBTASK_COUNTING, expected: EXPECTED_TASKS_PER_WEEK, closed_at: now } }),
+      prisma.weekly_snapshots.createMany({ data }),
+    ]);
+    rows += data.length;
+    console.log(`[snapshots] closed week ${key}: ${data.length} assignee rows from ${subtasks.length} subtasks`);
+  }
+  return { weeks: weeks.size, rows, heldBack };
+}
+
+export type SnapshotWeek = SnapshotCounts & { week_startdate: Date; expected: number };
+
+/**
+ * The closed weeks (as report days, YYYY-MM-DD) and the frozen counts of one
+ * assignee in them, summed over projects unless `project` is set. A closed
+ * week without counts for the assignee is in `closed` all the same, since
+ * live data must not be used for it.
+ */
+export async function loadWeeklySnapshots(assigneeGid: string, project?: string | null): Promise<{ closed: Set<string>; weeks: SnapshotWeek[] }> {
+  const [closedWeeks, rows] = await Promise.all([
+    prisma.closed_weeks.findMany({ select: { week_startdate: true, expected: true } }),
+    prisma.weekly_snapshots.findMany({ where: { assignee_gid: assigneeGid, ...(project ? { project } : {}) } }),
+  ]);
+  const expected = new Map(closedWeeks.map((w) => [reportDateKey(w.week_startdate), w.expected]));
+  const byWeek = new Map<string, SnapshotWeek>();
+  for (const r of rows) {
+    const key = reportDateKey(r.week_startdate);
+    if (!byWeek.has(key)) byWeek.set(key, { week_startdate: r.week_startdate, expected: expected.get(key) ?? EXPECTED_TASKS_PER_WEEK, assigned: 0, completed: 0, overdue: 0, collab: 0 });
+    const w = byWeek.get(key)!;
+    w.assigned += r.assigned;
+    w.completed += r.completed;
+    w.overdue += r.overdue;
+    w.collab += r.collab;
+  }
+  return { closed: new Set(expected.keys()), weeks: Array.from(byWeek.values()) };
+}